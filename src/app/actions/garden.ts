@@ -4,8 +4,14 @@ import chalk from "chalk";
 import { GardenSimulation, GardenSimulationOptions } from "@/lib/garden/GardenSimulation";
 import { Simulation } from "@/lib/garden/types";
 import { ControllerKey, CONTROLLERS } from "@/lib/garden/controllers/map";
+import { FORECAST_PROVIDERS, ForecastProviderKey, WEATHER_MODELS, WeatherModelKey } from "@/lib/garden/weather/map";
+import { createReplayWeatherModel } from "@/lib/garden/weather/importWeather";
+import { SineWeatherModel } from "@/lib/garden/weather/SineWeatherModel";
+import { WEATHER_SCENARIOS, WeatherScenarioKey, withWeatherScenario } from "@/lib/garden/weather/scenarios";
+import { EPISODE_LENGTH } from "@/lib/garden/consts";
 import { getTrainingStore } from "@/lib/redis/trainingStore";
 import { SmartIrrigationController, FuzzyClimateEvaluator, HumidityPredictorNN, DEFAULT_CONTROLLER_PARAMS, DEFAULT_HUMIDITY_PREDICTOR_CONFIG } from "@/lib/garden/controllers/SmartIrrigationController";
+import { RLIrrigationController, RLPolicy } from "@/lib/garden/controllers/RLIrrigationController";
 
 /**
  * Options for running parallel simulations
@@ -17,8 +23,16 @@ export interface RunParallelSimulationsOptions extends Omit<GardenSimulationOpti
   baseSeed?: number;
   /** Optional controller key to use for all simulations (must be a key in `CONTROLLERS`) */
   controllerKey?: ControllerKey;
-  /** Optional training ID to load parameters for SmartIrrigationController */
+  /** Optional training ID to load parameters for SmartIrrigationController, or a policy ID for RLIrrigationController */
   trainingId?: string | null;
+  /** Weather model for every simulation, seeded per simulation (must be a key in `WEATHER_MODELS`) */
+  weatherModelKey?: WeatherModelKey;
+  /** Contents of a CSV/JSON weather log to replay in every simulation (takes precedence over `weatherModelKey`) */
+  weatherData?: string;
+  /** Forecast quality for every simulation, seeded per simulation (must be a key in `FORECAST_PROVIDERS`) */
+  forecastProviderKey?: ForecastProviderKey;
+  /** Extreme weather events layered on top of the weather (must be a key in `WEATHER_SCENARIOS`) */
+  scenarioKey?: WeatherScenarioKey;
 }
 
 /**
@@ -29,9 +43,9 @@ export interface RunParallelSimulationsOptions extends Omit<GardenSimulationOpti
 export async function runParallelGardenSimulations(
   options: RunParallelSimulationsOptions
 ): Promise<Simulation.Results[]> {
-  const { count, baseSeed = Date.now(), trainingId, ...sharedConfig } = options;
+  const { count, baseSeed = Date.now(), trainingId, weatherModelKey, weatherData, forecastProviderKey, scenarioKey, ...sharedConfig } = options;
   const controllerKey = (options as RunParallelSimulationsOptions).controllerKey;
-  const ControllerClass = (controllerKey && controllerKey !== 'smart') ? CONTROLLERS[controllerKey] : undefined;
+  const ControllerClass = (controllerKey && controllerKey !== 'smart' && controllerKey !== 'rl') ? CONTROLLERS[controllerKey] : undefined;
 
   // Load trained parameters if using SmartIrrigationController with a training ID
   let trainedParams = null;
@@ -49,6 +63,31 @@ export async function runParallelGardenSimulations(
     }
   }
 
+  // Load the learned policy for RLIrrigationController
+  let policy: RLPolicy | undefined;
+  if (controllerKey === 'rl' && trainingId) {
+    try {
+      const store = getTrainingStore();
+      await store.connect();
+      const saved = await store.loadPolicy(trainingId);
+      if (saved) {
+        policy = saved.policy;
+        console.log(chalk.magenta.bold(`\n🧠 Using learned policy: ${saved.name}`));
+      }
+    } catch (err) {
+      console.error('Failed to load policy:', err);
+    }
+  }
+
+  // Replays are deterministic, so every simulation can share one model
+  const replayWeather = weatherData ? createReplayWeatherModel(weatherData) : undefined;
+  if (replayWeather) {
+    console.log(chalk.magenta.bold(`\n🌦️  Replaying recorded weather`));
+  }
+  if (scenarioKey && scenarioKey !== "none") {
+    console.log(chalk.magenta.bold(`\n⚡ Weather scenario: ${WEATHER_SCENARIOS[scenarioKey].name}`));
+  }
+
   console.log(chalk.blue.bold(`\n🌱 Starting ${count} parallel garden simulations...`));
 
   // Create simulation promises with different seeds
@@ -62,10 +101,17 @@ export async function runParallelGardenSimulations(
       const fuzzy = new FuzzyClimateEvaluator();
       const nn = new HumidityPredictorNN(DEFAULT_HUMIDITY_PREDICTOR_CONFIG);
       controllerInstance = new SmartIrrigationController(fuzzy, nn, params);
+    } else if (controllerKey === 'rl') {
+      controllerInstance = new RLIrrigationController(policy);
     } else if (ControllerClass) {
       controllerInstance = new ControllerClass();
     }
-    return runSingleSimulation({ ...sharedConfig, seed, controller: controllerInstance }, index);
+    const baseWeather = replayWeather ?? (weatherModelKey ? WEATHER_MODELS[weatherModelKey](seed) : new SineWeatherModel(seed));
+    const weatherModel = scenarioKey
+      ? withWeatherScenario(baseWeather, scenarioKey, seed, sharedConfig.episodeLength ?? EPISODE_LENGTH)
+      : baseWeather;
+    const forecastProvider = forecastProviderKey ? FORECAST_PROVIDERS[forecastProviderKey](seed) : undefined;
+    return runSingleSimulation({ ...sharedConfig, seed, controller: controllerInstance, weatherModel, forecastProvider }, index);
   });
 
   // Run all simulations in parallel
@@ -75,6 +121,7 @@ export async function runParallelGardenSimulations(
   const avgScore = allResults.reduce((sum, r) => sum + r.finalScore, 0) / allResults.length;
   const avgWaterUsed = allResults.reduce((sum, r) => sum + r.totalWaterUsed, 0) / allResults.length;
   const avgHealthyTicks = allResults.reduce((sum, r) => sum + r.healthyPlantTicks, 0) / allResults.length;
+  const avgSurvivalRate = allResults.reduce((sum, r) => sum + r.survivalRate, 0) / allResults.length;
 
   const minScore = Math.min(...allResults.map((r) => r.finalScore));
   const maxScore = Math.max(...allResults.map((r) => r.finalScore));
@@ -86,6 +133,7 @@ export async function runParallelGardenSimulations(
   console.log(chalk.cyan(`   Score Range:          ${chalk.yellow(minScore.toFixed(2))} → ${chalk.yellow(maxScore.toFixed(2))}`));
   console.log(chalk.cyan(`   Average Water Used:   ${chalk.yellow(avgWaterUsed.toFixed(2))} units`));
   console.log(chalk.cyan(`   Average Healthy Ticks: ${chalk.yellow(avgHealthyTicks.toFixed(0))}`));
+  console.log(chalk.cyan(`   Average Survival:     ${chalk.yellow((avgSurvivalRate * 100).toFixed(1))}%`));
   console.log();
 
   return allResults;
@@ -116,7 +164,8 @@ async function runSingleSimulation(
     ` | Water: ${chalk.blue(results.totalWaterUsed.toFixed(2).padStart(7, " "))} units` +
     ` | Healthy: ${chalk.green(String(results.healthyPlantTicks).padStart(5, " "))} | ` +
     ` Dry: ${chalk.red(String(results.dryPlantTicks).padStart(5, " "))} | ` +
-    ` Flooded: ${chalk.magenta(String(results.floodedPlantTicks).padStart(5, " "))}`
+    ` Flooded: ${chalk.magenta(String(results.floodedPlantTicks).padStart(5, " "))} | ` +
+    ` Survival: ${chalk.green((results.survivalRate * 100).toFixed(0).padStart(3, " "))}%`
   );
 
   return results;
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrainingStore } from '@/lib/redis/trainingStore';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const store = getTrainingStore();
+    const connected = await store.connect();
+    
+    if (!connected) {
+      return NextResponse.json(
+        { error: 'Redis not connected' },
+        { status: 503 }
+      );
+    }
+
+    const { id } = await params;
+    const policy = await store.loadPolicy(id);
+    
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Policy not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const store = getTrainingStore();
+    const connected = await store.connect();
+    
+    if (!connected) {
+      return NextResponse.json(
+        { error: 'Redis not connected' },
+        { status: 503 }
+      );
+    }
+
+    const { id } = await params;
+    await store.deletePolicy(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { getTrainingStore } from '@/lib/redis/trainingStore';
+
+export async function GET() {
+  try {
+    const store = getTrainingStore();
+    const connected = await store.connect();
+    
+    if (!connected) {
+      return NextResponse.json(
+        { error: 'Redis not connected' },
+        { status: 503 }
+      );
+    }
+
+    const policies = await store.listPolicies();
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch policies' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const saved = await request.json();
+    const store = getTrainingStore();
+    const connected = await store.connect();
+    
+    if (!connected) {
+      return NextResponse.json(
+        { error: 'Redis not connected' },
+        { status: 503 }
+      );
+    }
+    
+    const id = await store.savePolicy(
+      saved.policy,
+      saved.name,
+      saved.score,
+      saved.config
+    );
+
+    return NextResponse.json({ id, success: true });
+  } catch (error) {
+    console.error('Failed to save policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to save policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -84,7 +84,7 @@ export function GATrainingUI() {
     setTotalGens(config.generations);
 
     try {
-      const trainer = new GeneticAlgorithmTrainer(config);
+      const trainer = GeneticAlgorithmTrainer.forSmartController(config);
 
       // Use async trainer with progress callback
       const allResults = await trainer.trainAsync(
@@ -9,6 +9,12 @@ import { runParallelGardenSimulations } from "@/app/actions/garden";
 import type { Simulation } from "@/lib/garden/types";
 import { CONTROLLERS, ControllerKey } from "@/lib/garden/controllers/map";
 import { ControllerSelector } from "@/lib/garden/components/ControllerSelector";
+import { FORECAST_PROVIDERS, ForecastProviderKey, WEATHER_MODELS, WeatherModelKey } from "@/lib/garden/weather/map";
+import { WEATHER_SCENARIOS, WeatherScenarioKey } from "@/lib/garden/weather/scenarios";
+import { EPISODE_LENGTH, TICKS_PER_DAY } from "@/lib/garden/consts";
+import { DEFAULT_SENSOR_COUNT, SENSOR_HARDWARE } from "@/lib/garden/sensors";
+import type { SensorPlacementStrategy } from "@/lib/garden/sensorPlanner";
+import { VALVE_ACTUATION_PRESETS, ValveActuationKey } from "@/lib/garden/valves";
 
 interface ParallelSimulationConfig {
   width: number;
@@ -19,6 +25,19 @@ interface ParallelSimulationConfig {
   simulationCount: number;
   baseSeed: number;
   controllerKey: ControllerKey;
+  /** A seeded weather model, or "replay" to play back an uploaded weather log */
+  weatherModelKey: WeatherModelKey | "replay";
+  forecastProviderKey: ForecastProviderKey;
+  /** Extreme weather events on top of the weather, the same for every controller with the same seeds */
+  scenarioKey: WeatherScenarioKey;
+  /** Episode length in days; seasonal weather needs weeks to show the season turning */
+  episodeDays: number;
+  /** Soil moisture probes the controllers see through; "none" = they see the true moisture */
+  sensorGrade: Simulation.SensorGrade | "none";
+  sensorCount: number;
+  sensorPlacement: SensorPlacementStrategy;
+  /** Valve latency, ramps and minimum on/off times */
+  actuationKey: ValveActuationKey;
 }
 
 export const ParallelSimulationsPanel: React.FC = () => {
@@ -31,12 +50,21 @@ export const ParallelSimulationsPanel: React.FC = () => {
     simulationCount: 5,
     baseSeed: 42,
     controllerKey: Object.keys(CONTROLLERS)[0] as keyof typeof CONTROLLERS,
+    weatherModelKey: "sine",
+    forecastProviderKey: "perfect",
+    scenarioKey: "none",
+    episodeDays: EPISODE_LENGTH / TICKS_PER_DAY,
+    sensorGrade: "none",
+    sensorCount: DEFAULT_SENSOR_COUNT,
+    sensorPlacement: "zones",
+    actuationKey: "instant",
   });
 
   const [results, setResults] = useState<Simulation.Results[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedTrainingId, setSelectedTrainingId] = useState<string | null>(null);
+  const [weatherFile, setWeatherFile] = useState<{ name: string; text: string } | null>(null);
 
   const handleRunSimulations = async () => {
     setLoading(true);
@@ -53,7 +81,20 @@ export const ParallelSimulationsPanel: React.FC = () => {
         count: config.simulationCount,
         baseSeed: config.baseSeed,
         controllerKey: config.controllerKey,
-        trainingId: config.controllerKey === 'smart' ? selectedTrainingId : undefined,
+        trainingId: config.controllerKey === 'smart' || config.controllerKey === 'rl' ? selectedTrainingId : undefined,
+        weatherModelKey: config.weatherModelKey === "replay" ? undefined : config.weatherModelKey,
+        weatherData: config.weatherModelKey === "replay" ? weatherFile?.text : undefined,
+        forecastProviderKey: config.forecastProviderKey,
+        scenarioKey: config.scenarioKey,
+        episodeLength: Math.max(1, Math.round(config.episodeDays * TICKS_PER_DAY)),
+        sensors: config.sensorGrade === "none"
+          ? undefined
+          : {
+            count: Math.max(1, Math.round(config.sensorCount)),
+            placement: config.sensorPlacement,
+            hardware: SENSOR_HARDWARE[config.sensorGrade],
+          },
+        simConfig: VALVE_ACTUATION_PRESETS[config.actuationKey],
       });
 
       setResults(simulationResults);
@@ -68,11 +109,11 @@ export const ParallelSimulationsPanel: React.FC = () => {
   const updateConfig = (key: keyof ParallelSimulationConfig, value: string | number) => {
     setConfig((prev) => ({
       ...prev,
-      // controllerKey should be set as a string directly; simulationCount as int; other numeric fields parsed as float
+      // controllerKey, sensorGrade, sensorPlacement, actuationKey and the weather/forecast/scenario keys should be set as a string directly; simulationCount as int; other numeric fields parsed as float
       [key]: typeof value === "string"
         ? key === "simulationCount"
           ? parseInt(value, 10)
-          : key === "controllerKey"
+          : key === "controllerKey" || key === "weatherModelKey" || key === "forecastProviderKey" || key === "scenarioKey" || key === "sensorGrade" || key === "sensorPlacement" || key === "actuationKey"
             ? (value as any)
             : parseFloat(value)
         : value,
@@ -163,6 +204,16 @@ export const ParallelSimulationsPanel: React.FC = () => {
                 disabled={loading}
               />
             </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium">Episode Days</label>
+              <Input
+                type="number"
+                min="1"
+                value={config.episodeDays}
+                onChange={(e) => updateConfig("episodeDays", e.target.value)}
+                disabled={loading}
+              />
+            </div>
             <div className="flex flex-col gap-2">
               <label className="text-sm font-medium">Controller</label>
               <ControllerSelector
@@ -177,9 +228,118 @@ export const ParallelSimulationsPanel: React.FC = () => {
                 trainingClassName="rounded-md border p-2 text-xs"
               />
             </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium">Weather</label>
+              <select
+                className="rounded-md border p-2 text-xs"
+                value={config.weatherModelKey}
+                onChange={(e) => updateConfig("weatherModelKey", e.target.value)}
+                disabled={loading}
+              >
+                {Object.keys(WEATHER_MODELS).map((key) => (
+                  <option key={key} value={key}>{key}</option>
+                ))}
+                <option value="replay">replay (CSV/JSON file)</option>
+              </select>
+              {config.weatherModelKey === "replay" && (
+                <Input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    setWeatherFile(file ? { name: file.name, text: await file.text() } : null);
+                  }}
+                  disabled={loading}
+                />
+              )}
+              {config.weatherModelKey === "replay" && weatherFile && (
+                <span className="text-xs text-muted-foreground">Loaded {weatherFile.name}</span>
+              )}
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium">Forecast</label>
+              <select
+                className="rounded-md border p-2 text-xs"
+                value={config.forecastProviderKey}
+                onChange={(e) => updateConfig("forecastProviderKey", e.target.value)}
+                disabled={loading}
+              >
+                {Object.keys(FORECAST_PROVIDERS).map((key) => (
+                  <option key={key} value={key}>{key}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium">Scenario</label>
+              <select
+                className="rounded-md border p-2 text-xs"
+                value={config.scenarioKey}
+                onChange={(e) => updateConfig("scenarioKey", e.target.value)}
+                disabled={loading}
+              >
+                {Object.entries(WEATHER_SCENARIOS).map(([key, scenario]) => (
+                  <option key={key} value={key}>{scenario.name}</option>
+                ))}
+              </select>
+              <span className="text-xs text-muted-foreground">{WEATHER_SCENARIOS[config.scenarioKey].description}</span>
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium">Sensors</label>
+              <select
+                className="rounded-md border p-2 text-xs"
+                value={config.sensorGrade}
+                onChange={(e) => updateConfig("sensorGrade", e.target.value)}
+                disabled={loading}
+              >
+                <option value="none">none (perfect knowledge)</option>
+                {Object.keys(SENSOR_HARDWARE).map((grade) => (
+                  <option key={grade} value={grade}>{grade}</option>
+                ))}
+              </select>
+              {config.sensorGrade !== "none" && (
+                <Input
+                  type="number"
+                  min={1}
+                  value={config.sensorCount}
+                  onChange={(e) => updateConfig("sensorCount", e.target.value)}
+                  disabled={loading}
+                />
+              )}
+              {config.sensorGrade !== "none" && (
+                <select
+                  className="rounded-md border p-2 text-xs"
+                  value={config.sensorPlacement}
+                  onChange={(e) => updateConfig("sensorPlacement", e.target.value)}
+                  disabled={loading}
+                >
+                  <option value="zones">placed by zone</option>
+                  <option value="clusters">placed by moisture behaviour</option>
+                  <option value="spread">spread evenly</option>
+                </select>
+              )}
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium">Valves</label>
+              <select
+                className="rounded-md border p-2 text-xs"
+                value={config.actuationKey}
+                onChange={(e) => updateConfig("actuationKey", e.target.value)}
+                disabled={loading}
+              >
+                {Object.entries(VALVE_ACTUATION_PRESETS).map(([key, preset]) => (
+                  <option key={key} value={key}>
+                    {key}{key !== "instant" && ` (${preset.valveLatency} tick delay, ${preset.valveRampUpTicks} tick ramp)`}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
           <div className="flex gap-2 mt-4">
-            <Button onClick={handleRunSimulations} disabled={loading} className="flex-1">
+            <Button
+              onClick={handleRunSimulations}
+              disabled={loading || (config.weatherModelKey === "replay" && !weatherFile)}
+              className="flex-1"
+            >
               {loading ? (
                 <>
                   <Spinner className="mr-2 h-4 w-4" />
@@ -271,6 +431,8 @@ export const ParallelSimulationsPanel: React.FC = () => {
                     <th className="px-4 py-2 text-right font-semibold">Flooded</th>
                     <th className="px-4 py-2 text-right font-semibold">Peak Dry</th>
                     <th className="px-4 py-2 text-right font-semibold">Peak Flooded</th>
+                    <th className="px-4 py-2 text-right font-semibold">Survival</th>
+                    <th className="px-4 py-2 text-right font-semibold">Biomass</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -291,6 +453,8 @@ export const ParallelSimulationsPanel: React.FC = () => {
                       <td className="px-4 py-2 text-right text-blue-600">{result.floodedPlantTicks}</td>
                       <td className="px-4 py-2 text-right">{result.peakSimultaneousDryPlants}</td>
                       <td className="px-4 py-2 text-right">{result.peakSimultaneousFloodedPlants}</td>
+                      <td className="px-4 py-2 text-right">{(result.survivalRate * 100).toFixed(0)}%</td>
+                      <td className="px-4 py-2 text-right">{result.finalBiomass.toFixed(1)}</td>
                     </tr>
                   ))}
                 </tbody>
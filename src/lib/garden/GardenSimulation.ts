@@ -1,40 +1,118 @@
-import { Garden, Simulation, Weather, IrrigationController } from "./types";
+import { Garden, Simulation, Weather, IrrigationController, WeatherModel, ForecastProvider } from "./types";
 import { generateGarden } from "./generator";
 import { planHoses } from "./hosePlanner";
-import { stepGardenMoisture, evolveWeather } from "./simulation";
-import { EPISODE_LENGTH, FORECAST_TICK_WINDOW, IDEAL_MIN_MOISTURE, IDEAL_MAX_MOISTURE, WATER_USAGE_PER_TICK, SCORE_WEIGHT_HEALTH_RATIO, SCORE_WEIGHT_DRY_PENALTY, SCORE_WEIGHT_FLOOD_PENALTY, SCORE_WEIGHT_WATER_EFFICIENCY } from "./consts";
-import { computeGardenMetrics } from "./metrics";
+import { stepGardenWater, emptyWaterLedger, addWaterLedgers, assertWaterBalance } from "./simulation";
+import { DEFAULT_DAY_LENGTH, EPISODE_LENGTH, FORECAST_TICK_WINDOW, WATER_USAGE_PER_TICK, SCORE_WEIGHT_HEALTH_RATIO, SCORE_WEIGHT_DRY_PENALTY, SCORE_WEIGHT_FLOOD_PENALTY, SCORE_WEIGHT_DEATH_PENALTY, SCORE_WEIGHT_WATER_EFFICIENCY } from "./consts";
+import { computeGardenMetrics, computeSensorMetrics } from "./metrics";
+import { resolveValveStates, isAnyValveOpen, createValveActuators, actuateValves, valveFlows } from "./valves";
+import { planZones, ZoningStrategy } from "./zones";
+import { EmitterStrategy } from "./emitters";
+import { NoisyForecastProvider, PERFECT_FORECAST_OPTIONS, SineWeatherModel } from "./weather";
+import { classifyPlantMoisture, getPlantSpecies, stepPlantGrowth } from "./plants";
+import { computeSunExposure } from "./shade";
+import { createWaterSources, planIrrigation, updateWaterSources, IrrigationPlan } from "./irrigation";
+import { createSensors, readSensors, SensorOptions } from "./sensors";
+
+function buildGarden(options: GardenSimulationOptions): Garden {
+    const withHoses = planHoses(
+        generateGarden({
+            width: options.width,
+            height: options.height,
+            pillarDensity: options.pillarDensity,
+            plantChanceNearPath: options.plantChanceNearPath,
+            seed: options.seed,
+        }),
+        { coverageRadius: options.coverageRadius, emitters: options.emitters }
+    );
+    return planZones(withHoses, {
+        strategy: options.zoning,
+        coverageRadius: options.coverageRadius,
+    });
+}
+
+/** What controllers may know of a garden up front: everything but its moisture */
+function gardenLayout(garden: Garden): Garden {
+    return { ...garden, tiles: garden.tiles.map((row) => row.map((tile) => ({ ...tile, moisture: 0 }))) };
+}
+
+function createDefaultState(
+    options: GardenSimulationOptions,
+    garden: Garden,
+    weatherModel: WeatherModel
+): Simulation.State {
+    const perValve = (value: number) =>
+        Object.fromEntries(garden.hoses.map((hose) => [hose.id, value]));
+    const config: Simulation.Config = {
+        irrigationRate: 0.05,
+        baseEvaporationRate: 0.01,
+        diffusionRate: 0.15,
+        rainToMoisture: 0.1,
+        maxMoisture: 2.0,
+        coverageRadius: options.coverageRadius,
+        fieldCapacity: 0.6,
+        runoffRate: 0.5,
+        runoffIterations: 3,
+        heavyRainThreshold: 0.6,
+        heavyRainRunoffFraction: 0.4,
+        pathDrainage: false,
+        pillarHeight: 2,
+        shadeDepth: 0.6,
+        plantRecoveryRate: 0.5,
+        sourceFlowRate: 25,
+        tankCapacity: 0,
+        tankRefillRate: 0.5,
+        rainCaptureRate: 2,
+        evapotranspirationModel: "linear",
+        fullSunRadiation: 1000,
+        etToMoisture: 0.25,
+        soilEvaporationCoefficient: 0.3,
+        windEvaporationRate: 0.03,
+        sprayDriftRate: 0.05,
+        valveLatency: 0,
+        valveRampUpTicks: 0,
+        valveRampDownTicks: 0,
+        valveMinOnTicks: 0,
+        valveMinOffTicks: 0,
+        assertWaterBalance: false,
+        ...options.simConfig,
+    };
 
-function createDefaultState(options: GardenSimulationOptions): Simulation.State {
+    // Valves start settled shut, so opening them goes through the actuation lag like any later command
+    const valves = resolveValveStates(false, garden.hoses);
+    const dayLength = weatherModel.dayLength?.(0) ?? DEFAULT_DAY_LENGTH;
     return {
         tick: 0,
         isRunning: false,
-        irrigationOn: true,
-        weather: {
-            temperature: 25,
-            humidity: 0.5,
-            sunIntensity: 0.8,
-            rainIntensity: 0,
-        },
-        config: {
-            irrigationRate: 0.05,
-            baseEvaporationRate: 0.01,
-            diffusionRate: 0.15,
-            rainToMoisture: 0.1,
-            maxMoisture: 2.0,
-            coverageRadius: options.coverageRadius,
-            ...options.simConfig,
-        },
-        episodeLength: EPISODE_LENGTH,
-        forecast: Array.from({ length: FORECAST_TICK_WINDOW }, () => 0),
+        irrigationOn: false,
+        valves,
+        valveActuators: createValveActuators(valves),
+        zones: garden.zones,
+        weather: weatherModel.initialState(),
+        sunExposure: computeSunExposure(garden, 0, config, dayLength),
+        dayLength,
+        config,
+        episodeLength: options.episodeLength ?? EPISODE_LENGTH,
+        forecast: [],
         waterUsedThisTick: 0,
+        waterRequestedThisTick: 0,
+        waterSources: createWaterSources(garden, config),
+        sensors: options.sensors ? createSensors(garden, options.sensors, config, options.seed) : [],
+        waterLedger: emptyWaterLedger(),
+        cumulativeWaterLedger: emptyWaterLedger(),
         lastIrrigationTick: 0,
         cumulativeWaterUsed: 0,
+        cumulativeWaterRequested: 0,
         irrigationToggleCount: 0,
         irrigationOnTicks: 0,
+        valveToggleCount: perValve(0),
+        valveOnTicks: perValve(0),
+        waterUsedByValve: perValve(0),
         dryPlantTicks: 0,
         floodedPlantTicks: 0,
         healthyPlantTicks: 0,
+        dryStressTicks: 0,
+        floodStressTicks: 0,
+        deadPlantTicks: 0,
         peakSimultaneousFloodedPlants: 0,
         peakSimultaneousDryPlants: 0,
         results: undefined,
@@ -48,8 +126,28 @@ export interface GardenSimulationOptions {
     plantChanceNearPath: number;
     seed: number;
     coverageRadius: number;
+    /** How hoses are grouped into zones (defaults to one zone per water source) */
+    zoning?: ZoningStrategy;
+    /** Emitter types the hose planner assigns (defaults to plain hoses) */
+    emitters?: EmitterStrategy;
     simConfig?: Partial<Simulation.Config>;
     controller?: IrrigationController;
+    /** Where the weather comes from (defaults to the sine-wave model seeded with `seed`) */
+    weatherModel?: WeatherModel;
+    /** How accurate `state.forecast` is (defaults to a perfect forecast) */
+    forecastProvider?: ForecastProvider;
+    /** Ticks covered by `state.forecast` (defaults to `FORECAST_TICK_WINDOW`) */
+    forecastHorizon?: number;
+    /** Ticks per episode (defaults to `EPISODE_LENGTH`); use `TICKS_PER_DAY` multiples for multi-week runs */
+    episodeLength?: number;
+    /** Soil moisture probes; when given, controllers see moisture estimated from their readings instead of the truth */
+    sensors?: SensorOptions;
+    /**
+     * Called every tick with the true garden, before the controller decides.
+     * For collecting training targets and analysis only; controllers never
+     * see the true garden.
+     */
+    observeTrueGarden?: (garden: Garden, state: Simulation.State) => void;
 }
 
 /**
@@ -66,51 +164,44 @@ export class GardenSimulation {
     public state: Simulation.State;
     public overrideEpisodeEnd: boolean = false;
     private controller: IrrigationController;
+    private weatherModel: WeatherModel;
+    private forecastProvider: ForecastProvider;
+    private forecastHorizon: number;
+    private seed: number;
+    private observeTrueGarden?: (garden: Garden, state: Simulation.State) => void;
 
     constructor(options: GardenSimulationOptions) {
-        this.garden = planHoses(
-            generateGarden({
-                width: options.width,
-                height: options.height,
-                pillarDensity: options.pillarDensity,
-                plantChanceNearPath: options.plantChanceNearPath,
-                seed: options.seed,
-            }),
-            { coverageRadius: options.coverageRadius }
-        );
-        this.state = createDefaultState(options);
+        this.seed = options.seed;
+        this.garden = buildGarden(options);
+        this.weatherModel = options.weatherModel ?? new SineWeatherModel(options.seed);
+        this.forecastProvider = options.forecastProvider ?? new NoisyForecastProvider(options.seed, PERFECT_FORECAST_OPTIONS);
+        this.forecastHorizon = options.forecastHorizon ?? FORECAST_TICK_WINDOW;
+        this.state = createDefaultState(options, this.garden, this.weatherModel);
+        this.observeTrueGarden = options.observeTrueGarden;
         // Set default controller or use provided one
         this.controller = options.controller || new DefaultIrrigationController();
+        this.controller.setLayout?.(gardenLayout(this.garden));
     }
 
+    /** Plants planted at the start, dead or alive */
     private countPlants(): number {
-        return this.garden.tiles.flat().filter((t) => t.hasPlant).length;
+        return this.garden.tiles.flat().filter((t) => t.hasPlant || t.plant).length;
     }
 
-    private computeWaterUsedThisTick(): number {
-        const { irrigationRate, coverageRadius } = this.state.config;
-        if (!this.state.irrigationOn) return 0;
-
-        const marked = new Set<string>();
-        for (const hose of this.garden.hoses) {
-            for (const p of hose.tiles) {
-                for (let dy = -coverageRadius; dy <= coverageRadius; dy++) {
-                    for (let dx = -coverageRadius; dx <= coverageRadius; dx++) {
-                        if (Math.abs(dx) + Math.abs(dy) > coverageRadius) continue;
-                        const nx = p.x + dx;
-                        const ny = p.y + dy;
-                        if (nx < 0 || ny < 0 || ny >= this.garden.height || nx >= this.garden.width) continue;
-                        const key = `${nx},${ny}`;
-                        if (marked.has(key)) continue;
-                        const tile = this.garden.tiles[ny][nx];
-                        if (tile.type === "soil") {
-                            marked.add(key);
-                        }
-                    }
-                }
-            }
-        }
-        return marked.size * (irrigationRate ?? 0);
+    /**
+     * Water the open valves ask for this tick and what the sources actually
+     * deliver, given their flow rates and tank levels. Call after the
+     * weather has advanced, so spray losses use this tick's weather.
+     */
+    private computeWaterUsedThisTick(): IrrigationPlan {
+        return planIrrigation({
+            garden: this.garden,
+            config: this.state.config,
+            valves: this.state.valves,
+            sources: this.state.waterSources,
+            weather: this.state.weather,
+            flow: valveFlows(this.state.valveActuators),
+        });
     }
 
     private updatePlantAccumulators() {
@@ -119,15 +210,25 @@ export class GardenSimulation {
         let dryPlants = 0;
         let floodedPlants = 0;
         let healthyPlants = 0;
+        // Stress weighs each out-of-range plant by how badly its species takes it
+        let dryStress = 0;
+        let floodStress = 0;
+        let deadPlants = 0;
 
         for (const tile of allTiles) {
-            if (!tile.hasPlant) continue;
+            if (!tile.hasPlant) {
+                if (tile.plant) deadPlants++;
+                continue;
+            }
 
-            const m = tile.moisture;
-            if (m < IDEAL_MIN_MOISTURE) {
+            const species = getPlantSpecies(tile);
+            const status = classifyPlantMoisture(tile);
+            if (status === "dry") {
                 dryPlants++;
-            } else if (m > IDEAL_MAX_MOISTURE) {
+                dryStress += 1 - species.droughtTolerance;
+            } else if (status === "flooded") {
                 floodedPlants++;
+                floodStress += 1 - species.floodTolerance;
             } else {
                 healthyPlants++;
             }
@@ -136,6 +237,9 @@ export class GardenSimulation {
         this.state.dryPlantTicks = (this.state.dryPlantTicks ?? 0) + dryPlants;
         this.state.floodedPlantTicks = (this.state.floodedPlantTicks ?? 0) + floodedPlants;
         this.state.healthyPlantTicks = (this.state.healthyPlantTicks ?? 0) + healthyPlants;
+        this.state.dryStressTicks = (this.state.dryStressTicks ?? 0) + dryStress;
+        this.state.floodStressTicks = (this.state.floodStressTicks ?? 0) + floodStress;
+        this.state.deadPlantTicks = (this.state.deadPlantTicks ?? 0) + deadPlants;
 
         this.state.peakSimultaneousDryPlants = Math.max(
             this.state.peakSimultaneousDryPlants ?? 0,
@@ -147,13 +251,14 @@ export class GardenSimulation {
         );
     }
 
-    private generateForecast(): number[] {
+    private generateForecast(): Weather.Forecast[] {
         let tempWeather = this.state.weather;
-        return Array.from({ length: FORECAST_TICK_WINDOW }, (_, k) => {
-            const w = evolveWeather(this.garden.seed ?? 42, tempWeather, this.state.tick + k);
+        const truth = Array.from({ length: this.forecastHorizon }, (_, k) => {
+            const w = this.weatherModel.evolve(tempWeather, this.state.tick + k);
             tempWeather = w;
-            return w.rainIntensity;
+            return w;
         });
+        return this.forecastProvider.forecast(truth, this.state.tick);
     }
 
     /**
@@ -169,15 +274,24 @@ export class GardenSimulation {
         const dryPlantTicks = this.state.dryPlantTicks ?? 0;
         const floodedPlantTicks = this.state.floodedPlantTicks ?? 0;
         const healthyPlantTicks = this.state.healthyPlantTicks ?? 0;
+        const dryStressTicks = this.state.dryStressTicks ?? 0;
+        const floodStressTicks = this.state.floodStressTicks ?? 0;
+        const deadPlantTicks = this.state.deadPlantTicks ?? 0;
         const totalWaterUsed = this.state.cumulativeWaterUsed;
 
+        // Dead plants drop out of the dry/healthy/flooded counts and are penalized through deadPlantTicks
+        const livingPlants = this.garden.tiles.flat().filter((t) => t.hasPlant);
+        const finalBiomass = livingPlants.reduce((sum, t) => sum + (t.plant?.biomass ?? 1), 0);
+
         let finalScore = 0;
 
         if (totalPlantTicks > 0) {
-            // Ratios in [0, 1], assuming each plant tick is classified as exactly one of dry/healthy/flooded.
+            // Ratios in [0, 1], assuming each plant tick is classified as exactly one of dry/healthy/flooded/dead.
+            // Dry/flood penalties use stress ticks, so tolerant species cost less when out of range.
             const healthRatio = healthyPlantTicks / totalPlantTicks;
-            const dryRatio = dryPlantTicks / totalPlantTicks;
-            const floodRatio = floodedPlantTicks / totalPlantTicks;
+            const dryRatio = dryStressTicks / totalPlantTicks;
+            const floodRatio = floodStressTicks / totalPlantTicks;
+            const deadRatio = deadPlantTicks / totalPlantTicks;
 
             // Average water used per plant per tick
             const waterPerPlantTick = totalWaterUsed / totalPlantTicks;
@@ -193,11 +307,13 @@ export class GardenSimulation {
             // - Strong weight on healthRatio
             // - Extra penalty for dryness (worse than flooding)
             // - Mild penalty for flooding
+            // - Heavier penalty for every tick a plant spends dead
             // - Reward efficient water usage
             const rawScore =
                 SCORE_WEIGHT_HEALTH_RATIO * healthRatio -        // main objective: keep plants in ideal range
                 SCORE_WEIGHT_DRY_PENALTY * dryRatio -     // penalty for dryness
-                SCORE_WEIGHT_FLOOD_PENALTY * floodRatio +   // penalty for flooding
+                SCORE_WEIGHT_FLOOD_PENALTY * floodRatio -   // penalty for flooding
+                SCORE_WEIGHT_DEATH_PENALTY * deadRatio +    // penalty for dead plants
                 SCORE_WEIGHT_WATER_EFFICIENCY * waterScore;          // be water-efficient
 
             // Normalize: max possible rawScore is 0.6 + 0.1 = 0.7 (healthRatio=1, waterScore=1, penalties=0)
@@ -211,9 +327,13 @@ export class GardenSimulation {
 
         const results: Simulation.Results = {
             totalWaterUsed,
+            totalWaterRequested: this.state.cumulativeWaterRequested,
             dryPlantTicks,
             floodedPlantTicks,
             healthyPlantTicks,
+            dryStressTicks,
+            floodStressTicks,
+            deadPlantTicks,
             peakSimultaneousFloodedPlants: this.state.peakSimultaneousFloodedPlants ?? 0,
             peakSimultaneousDryPlants: this.state.peakSimultaneousDryPlants ?? 0,
             tickCount,
@@ -221,6 +341,11 @@ export class GardenSimulation {
             totalPlantTicks, // ✅ fill the new field
             irrigationToggleCount: this.state.irrigationToggleCount,
             irrigationOnTicks: this.state.irrigationOnTicks,
+            valveToggleCount: { ...this.state.valveToggleCount },
+            valveOnTicks: { ...this.state.valveOnTicks },
+            survivalRate: totalPlants > 0 ? livingPlants.length / totalPlants : 1,
+            deadPlants: totalPlants - livingPlants.length,
+            finalBiomass,
         };
 
         this.state.results = results;
@@ -228,19 +353,16 @@ export class GardenSimulation {
     }
 
     regenerate(options: GardenSimulationOptions) {
-        this.garden = planHoses(
-            generateGarden({
-                width: options.width,
-                height: options.height,
-                pillarDensity: options.pillarDensity,
-                plantChanceNearPath: options.plantChanceNearPath,
-                seed: options.seed,
-            }),
-            { coverageRadius: options.coverageRadius }
-        );
+        this.seed = options.seed;
+        this.garden = buildGarden(options);
+        this.weatherModel = options.weatherModel ?? new SineWeatherModel(options.seed);
+        this.forecastProvider = options.forecastProvider ?? new NoisyForecastProvider(options.seed, PERFECT_FORECAST_OPTIONS);
+        this.forecastHorizon = options.forecastHorizon ?? FORECAST_TICK_WINDOW;
         // Reset state to default for given options (keeps resets DRY)
-        this.state = createDefaultState(options);
+        this.state = createDefaultState(options, this.garden, this.weatherModel);
         this.overrideEpisodeEnd = false;
+        this.observeTrueGarden = options.observeTrueGarden;
+        this.controller.setLayout?.(gardenLayout(this.garden));
     }
 
     step() {
@@ -252,10 +374,27 @@ export class GardenSimulation {
         }
         
         const prevIrrigationOn = this.state.irrigationOn;
-
-        // Let the controller decide on irrigation state
-        const metrics = computeGardenMetrics(this.state, this.garden);
-        this.state.irrigationOn = this.controller.decide(metrics, this.state);
+        const prevValves = this.state.valves;
+
+        // Probes sample the soil; with probes installed the controller only sees their estimate
+        this.state.sensors = readSensors(this.state.sensors, this.garden, this.state.tick, this.seed);
+        // Let the controller decide on valve states
+        const metrics = this.state.sensors.length
+            ? computeSensorMetrics(this.state, this.garden)
+            : computeGardenMetrics(this.state, this.garden);
+        this.observeTrueGarden?.(this.garden, this.state);
+        const decision = this.controller.decide(metrics, this.state);
+        // The valves act on the decision as fast as their hardware allows
+        this.state.valveActuators = actuateValves(
+            this.state.valveActuators,
+            resolveValveStates(decision, this.garden.hoses),
+            this.state.tick,
+            this.state.config
+        );
+        this.state.valves = Object.fromEntries(
+            Object.entries(this.state.valveActuators).map(([hoseId, actuator]) => [hoseId, actuator.open])
+        );
+        this.state.irrigationOn = isAnyValveOpen(this.state.valves);
 
         // Track irrigation toggles and time spent on
         if (this.state.irrigationOn !== prevIrrigationOn) {
@@ -267,25 +406,51 @@ export class GardenSimulation {
         if (this.state.irrigationOn) {
             this.state.irrigationOnTicks += 1;
         }
-        
+
+        // Same bookkeeping for each valve on its own
+        for (const hose of this.garden.hoses) {
+            const open = this.state.valves[hose.id];
+            if (open !== prevValves[hose.id]) {
+                this.state.valveToggleCount[hose.id] = (this.state.valveToggleCount[hose.id] ?? 0) + 1;
+            }
+            if (open) {
+                this.state.valveOnTicks[hose.id] = (this.state.valveOnTicks[hose.id] ?? 0) + 1;
+            }
+        }
+
+
         // Weather evolution
-        const nextWeather = evolveWeather(
-            this.garden.seed ?? 42,
-            this.state.weather,
-            this.state.tick
-        );
+        const nextWeather = this.weatherModel.evolve(this.state.weather, this.state.tick);
         this.state.weather = nextWeather;
-        // Garden moisture step
-        this.garden = stepGardenMoisture({
+        // Shadows follow the sun through the day, which lasts as long as the weather model says
+        this.state.dayLength = this.weatherModel.dayLength?.(this.state.tick) ?? DEFAULT_DAY_LENGTH;
+        this.state.sunExposure = computeSunExposure(this.garden, this.state.tick, this.state.config, this.state.dayLength);
+        // Water delivered by the open valves, limited by what the sources can supply
+        const waterUsed = this.computeWaterUsedThisTick();
+        this.state.waterSources = updateWaterSources(this.state.waterSources, waterUsed.deliveredBySource, nextWeather);
+        // Garden moisture step, with its water budget
+        const { garden, ledger } = stepGardenWater({
             garden: this.garden,
             config: { ...this.state.config, coverageRadius: this.state.config.coverageRadius },
             weather: nextWeather,
-            irrigationOn: this.state.irrigationOn,
+            valves: this.state.valves,
+            sunExposure: this.state.sunExposure,
+            irrigation: waterUsed.water,
         });
-        // Compute water used this tick and update totals
-        const waterUsedThisTick = this.computeWaterUsedThisTick();
-        this.state.waterUsedThisTick = waterUsedThisTick;
-        this.state.cumulativeWaterUsed += waterUsedThisTick;
+        if (this.state.config.assertWaterBalance) {
+            assertWaterBalance(ledger);
+        }
+        this.garden = garden;
+        this.state.waterLedger = ledger;
+        this.state.cumulativeWaterLedger = addWaterLedgers(this.state.cumulativeWaterLedger, ledger);
+        // Update water totals
+        this.state.waterUsedThisTick = waterUsed.delivered;
+        this.state.waterRequestedThisTick = waterUsed.requested;
+        this.state.waterUsedByValve = waterUsed.deliveredByValve;
+        this.state.cumulativeWaterUsed += waterUsed.delivered;
+        this.state.cumulativeWaterRequested += waterUsed.requested;
+        // Plants grow, accumulate stress or die
+        this.garden = stepPlantGrowth(this.garden, this.state.config.plantRecoveryRate);
 
         // Update plant-status accumulators for results
         this.updatePlantAccumulators();
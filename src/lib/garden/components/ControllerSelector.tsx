@@ -9,6 +9,8 @@ interface SavedTraining {
   timestamp: string;
 }
 
+type SavedPolicy = SavedTraining;
+
 interface ControllerSelectorProps {
   controllerKey: ControllerKey;
   selectedTrainingId: string | null;
@@ -27,9 +29,10 @@ interface ControllerSelectorProps {
 
 /**
  * Reusable controller selector component that handles:
- * - Controller type selection (manual, dumb, alwaysOn, alwaysOff, smart)
+ * - Controller type selection (manual, dumb, alwaysOn, alwaysOff, smart, rl)
  * - Training model selection (when smart controller is selected)
- * - Fetching available trainings from API
+ * - Learned policy selection (when rl controller is selected)
+ * - Fetching available trainings and policies from API
  */
 export const ControllerSelector: React.FC<ControllerSelectorProps> = ({
   controllerKey,
@@ -43,6 +46,7 @@ export const ControllerSelector: React.FC<ControllerSelectorProps> = ({
   trainingClassName = "rounded-md border px-2 h-8 text-xs",
 }) => {
   const [trainings, setTrainings] = useState<SavedTraining[]>([]);
+  const [policies, setPolicies] = useState<SavedPolicy[]>([]);
 
   useEffect(() => {
     const fetchTrainings = async () => {
@@ -56,7 +60,19 @@ export const ControllerSelector: React.FC<ControllerSelectorProps> = ({
         console.error('Failed to fetch trainings:', err);
       }
     };
+    const fetchPolicies = async () => {
+      try {
+        const response = await fetch('/api/policies');
+        if (response.ok) {
+          const data = await response.json();
+          setPolicies(data.policies || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch policies:', err);
+      }
+    };
     fetchTrainings();
+    fetchPolicies();
   }, []);
 
   const controllerKeys = Object.keys(CONTROLLERS).filter(
@@ -69,7 +85,11 @@ export const ControllerSelector: React.FC<ControllerSelectorProps> = ({
       <select
         className={controllerClassName}
         value={controllerKey}
-        onChange={(e) => onControllerChange(e.target.value as ControllerKey)}
+        onChange={(e) => {
+          // Trainings and policies belong to one controller each
+          onTrainingChange(null);
+          onControllerChange(e.target.value as ControllerKey);
+        }}
         disabled={disabled}
       >
         {controllerKeys.map((k) => (
@@ -78,6 +98,7 @@ export const ControllerSelector: React.FC<ControllerSelectorProps> = ({
           </option>
         ))}
         <option value="smart">smart</option>
+        <option value="rl">rl</option>
       </select>
 
       {/* Training Selection (only for smart controller) */}
@@ -99,6 +120,26 @@ export const ControllerSelector: React.FC<ControllerSelectorProps> = ({
           ))}
         </select>
       )}
+
+      {/* Policy Selection (only for rl controller) */}
+      {controllerKey === 'rl' && (
+        <select
+          className={trainingClassName}
+          value={selectedTrainingId || ''}
+          onChange={(e) => onTrainingChange(e.target.value || null)}
+          disabled={disabled}
+        >
+          <option value="">Untrained Policy</option>
+          {policies.map((p) => (
+            <option key={p.id} value={p.id}>
+              {showTrainingDate
+                ? `${p.name} (${new Date(p.timestamp).toLocaleDateString()})`
+                : p.name
+              }
+            </option>
+          ))}
+        </select>
+      )}
     </>
   );
 };
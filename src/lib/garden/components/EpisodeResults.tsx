@@ -21,8 +21,13 @@ export const EpisodeResults: React.FC<EpisodeResultsProps> = ({ results }) => {
         <div className="flex justify-between"><span>Dry Plant Ticks</span><span>{results.dryPlantTicks}</span></div>
         <div className="flex justify-between"><span>Flooded Plant Ticks</span><span>{results.floodedPlantTicks}</span></div>
         <div className="flex justify-between"><span>Healthy Plant Ticks</span><span>{results.healthyPlantTicks}</span></div>
+        <div className="flex justify-between"><span>Dry Stress (species-weighted)</span><span>{results.dryStressTicks.toFixed(1)}</span></div>
+        <div className="flex justify-between"><span>Flood Stress (species-weighted)</span><span>{results.floodStressTicks.toFixed(1)}</span></div>
+        <div className="flex justify-between"><span>Dead Plant Ticks</span><span>{results.deadPlantTicks}</span></div>
         <div className="flex justify-between"><span>Peak Flooded Plants</span><span>{results.peakSimultaneousFloodedPlants}</span></div>
         <div className="flex justify-between"><span>Peak Dry Plants</span><span>{results.peakSimultaneousDryPlants}</span></div>
+        <div className="flex justify-between"><span>Survival Rate</span><span>{(results.survivalRate * 100).toFixed(0)}% ({results.deadPlants} died)</span></div>
+        <div className="flex justify-between"><span>Final Biomass</span><span>{results.finalBiomass.toFixed(1)}</span></div>
         <div className="flex justify-between"><span>Tick Count</span><span>{results.tickCount}</span></div>
         <div className="flex justify-between"><span>Final Score</span><span>{results.finalScore}%</span></div>
       </CardContent>
@@ -0,0 +1,149 @@
+'use client';
+
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { FORECAST_TICK_WINDOW } from '../consts';
+import { Weather } from '../types';
+import { aggregateForecastByDay } from '../weather/forecast';
+
+// Small, focused forecast chart using simple divs and Tailwind styles.
+// We avoid adding extra dependencies — the project already includes Tailwind.
+
+interface ForecastPanelProps {
+  forecast: Weather.Forecast[]; // forecast weather for upcoming ticks
+  currentTick: number;     // current tick number to label the forecast horizon
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/** Nearest of the eight compass points to a direction in radians (0 = north) */
+const compassPoint = (radians: number) =>
+  COMPASS_POINTS[((Math.round(radians / (Math.PI / 4)) % 8) + 8) % 8];
+
+const pct = (v: number) => `${Math.round(Math.max(0, Math.min(1, v)) * 100)}%`;
+
+export function ForecastPanel({ forecast, currentTick }: ForecastPanelProps) {
+
+  const displayForecast = forecast.slice(0, FORECAST_TICK_WINDOW);
+  // Horizons longer than the tick chart are summarized per day
+  const days = forecast.length > FORECAST_TICK_WINDOW ? aggregateForecastByDay(forecast, currentTick + 1) : [];
+
+  const maxBarHeight = 80; // px
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Forecast 🌦️</CardTitle>
+      </CardHeader>
+      <CardContent className="p-3 space-y-3">
+        {forecast.length === 0 && <div className="text-xs text-muted-foreground">No forecast yet</div>}
+        <div
+          className="flex items-end gap-2"
+          style={{ height: maxBarHeight, flexDirection: "row" }}
+        >
+          {displayForecast.map(({ weather, rain }, idx) => {
+            const tickLabel = currentTick + idx + 1;
+            const description =
+              `Tick ${tickLabel}: ${pct(rain.probability)} chance of rain, ` +
+              `intensity ${rain.intensity.toFixed(2)} (${rain.low.toFixed(2)}–${rain.high.toFixed(2)}), ` +
+              `${weather.temperature.toFixed(1)}°C, humidity ${pct(weather.humidity)}, sun ${weather.sunIntensity.toFixed(2)}, ` +
+              `wind ${weather.windSpeed.toFixed(1)} m/s from ${compassPoint(weather.windDirection)}`;
+
+            return (
+              <div key={idx} className="flex flex-col items-center text-xs" style={{ width: 28 }}>
+                <div className="flex items-end justify-center gap-px w-full" style={{ height: maxBarHeight - 18 }}>
+                  {/* Chance of rain */}
+                  <div
+                    className="w-4 bg-blue-500 rounded-t-md"
+                    style={{ height: pct(rain.probability) }}
+                    title={description}
+                    aria-label={description}
+                  />
+                  {/* Intensity if it rains: confidence band with the expected value marked */}
+                  <div className="relative w-1.5 h-full" title={description}>
+                    <div
+                      className="absolute w-full bg-sky-200"
+                      style={{ bottom: pct(rain.low), height: pct(rain.high - rain.low), opacity: 0.4 + 0.6 * rain.probability }}
+                    />
+                    <div className="absolute w-full h-0.5 bg-sky-700" style={{ bottom: pct(rain.intensity) }} />
+                  </div>
+                </div>
+                <div className="mt-1 text-xxs text-muted-foreground">{tickLabel}</div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Other variables, one row each, aligned with the rain bars */}
+        {displayForecast.length > 0 && (
+          <div className="space-y-1 text-xxs text-muted-foreground">
+            <div className="flex gap-2" title="Rain chance">
+              {displayForecast.map(({ rain }, idx) => (
+                <div key={idx} className="text-center" style={{ width: 28 }}>{pct(rain.probability)}</div>
+              ))}
+            </div>
+            <div className="flex gap-2" title="Temperature (°C)">
+              {displayForecast.map(({ weather }, idx) => (
+                <div key={idx} className="text-center" style={{ width: 28 }}>{weather.temperature.toFixed(0)}°</div>
+              ))}
+            </div>
+            <div className="flex gap-2" title="Humidity">
+              {displayForecast.map(({ weather }, idx) => (
+                <div key={idx} className="text-center" style={{ width: 28 }}>{pct(weather.humidity)}</div>
+              ))}
+            </div>
+            <div className="flex gap-2" title="Wind (m/s), arrow pointing downwind">
+              {displayForecast.map(({ weather }, idx) => (
+                <div key={idx} className="text-center" style={{ width: 28 }}>
+                  <span
+                    className="inline-block"
+                    // ↓ points south; a wind from the north (0) blows south, so rotate by the direction
+                    style={{ transform: `rotate(${(weather.windDirection * 180) / Math.PI}deg)` }}
+                  >
+                    ↓
+                  </span>
+                  {weather.windSpeed.toFixed(0)}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2" title="Sun">
+              {displayForecast.map(({ weather }, idx) => (
+                <div
+                  key={idx}
+                  className="h-2 rounded-sm bg-yellow-400"
+                  style={{ width: 28, opacity: Math.max(0.05, weather.sunIntensity) }}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {days.length > 0 && (
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-normal">Day</th>
+                <th className="text-right font-normal">Temp °C</th>
+                <th className="text-right font-normal">Humidity</th>
+                <th className="text-right font-normal">Sun</th>
+                <th className="text-right font-normal">Wind</th>
+                <th className="text-right font-normal">Rain</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map((day) => (
+                <tr key={day.day} title={`${day.ticks} ticks forecast; expected rain ${day.expectedRain.toFixed(1)}`}>
+                  <td>{day.day + 1}</td>
+                  <td className="text-right">{day.minTemperature.toFixed(0)}–{day.maxTemperature.toFixed(0)}</td>
+                  <td className="text-right">{pct(day.meanHumidity)}</td>
+                  <td className="text-right">{pct(day.sunFraction)} · peak {day.peakSun.toFixed(2)}</td>
+                  <td className="text-right">≤ {day.maxWindSpeed.toFixed(0)} m/s</td>
+                  <td className="text-right">{pct(day.rainProbability)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,17 +3,25 @@
 import React, { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TILE_MOISTURE_DRY, TILE_MOISTURE_FLOODED, TILE_MOISTURE_GOOD } from "@/lib/garden/consts";
+import { FORECAST_TICK_WINDOW, TICKS_PER_DAY, TILE_MOISTURE_DRY, TILE_MOISTURE_FLOODED, TILE_MOISTURE_GOOD } from "@/lib/garden/consts";
 import type { Garden, Simulation } from "../types";
 import { MetricsPanel } from "./MetricsPanel";
 import { EpisodeResults } from "./EpisodeResults";
-import { RainForecastTable } from "./RainForecastTable";
+import { ForecastPanel } from "./ForecastPanel";
 import { MoistureStatusMap } from "./MoistureStatusMap";
 import { ControllerSelector } from "./ControllerSelector";
+import { ZonesPanel, zoneColor } from "./ZonesPanel";
+import { getPlantSpecies } from "../plants";
+import { getSoilType, SOIL_TYPES } from "../soils";
+import { getEmitterType } from "../emitters";
+import { DEFAULT_SENSOR_COUNT, SENSOR_HARDWARE } from "../sensors";
+import type { SensorPlacementStrategy } from "../sensorPlanner";
+import { VALVE_ACTUATION_PRESETS, ValveActuationKey } from "../valves";
 import { GardenSimulation, GardenSimulationOptions } from "../GardenSimulation";
 import { ManualIrrigationController } from "../controllers/ManualIrrigationController";
 import { CONTROLLERS, ControllerKey } from "../controllers/map";
 import { SmartIrrigationController, FuzzyClimateEvaluator, HumidityPredictorNN, DEFAULT_CONTROLLER_PARAMS, DEFAULT_HUMIDITY_PREDICTOR_CONFIG } from "../controllers/SmartIrrigationController";
+import { RLIrrigationController, RLPolicy } from "../controllers/RLIrrigationController";
 
 interface GardenViewProps {
   width?: number;
@@ -28,13 +36,39 @@ interface GardenConfig {
   seed: number;
   coverageRadius: number;
   controllerKey: ControllerKey;
+  /** Ticks the forecast covers */
+  forecastHorizon: number;
+  /** Soil moisture probes the controller sees through; "none" = it sees the true moisture */
+  sensorGrade: Simulation.SensorGrade | "none";
+  sensorCount: number;
+  sensorPlacement: SensorPlacementStrategy;
+  /** Valve latency, ramps and minimum on/off times */
+  actuationKey: ValveActuationKey;
 }
 
-const tileColor = (tile: Garden.Tile): string => {
+/** What the soil tiles of the grid are colored by */
+type GridOverlay = "moisture" | "soil" | "elevation" | "sun";
+
+/** `sunlight` is the sunlight reaching the tile right now (0–1), used by the "sun" overlay */
+const tileColor = (tile: Garden.Tile, overlay: GridOverlay, sunlight: number): string => {
   if (tile.type === "pillar") return "#555555";
   if (tile.type === "path") return "#b09764";
   if (tile.type === "water_source") return "#2b6cb0"; // blue-ish
 
+  if (overlay === "soil") return getSoilType(tile).color;
+  if (overlay === "elevation") {
+    // Low = dark, high = light
+    const shade = Math.round(40 + (tile.elevation ?? 0) * 180);
+    return `rgb(${shade}, ${shade}, ${shade})`;
+  }
+  if (overlay === "sun") {
+    // Shade/night = dark blue-grey, full sun = bright yellow
+    const r = Math.round(60 + sunlight * 190);
+    const g = Math.round(70 + sunlight * 150);
+    const b = Math.round(90 - sunlight * 50);
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+
   const m = tile.moisture;
   if (m <= TILE_MOISTURE_DRY) return "#c2a176"; // dry, light brown
   if (m < TILE_MOISTURE_GOOD) return "#9b7a4b"; // darker
@@ -54,6 +88,11 @@ export const GardenView: React.FC<GardenViewProps> = ({
     seed: 42, // static default
     coverageRadius: 1,
     controllerKey: 'manual',
+    forecastHorizon: FORECAST_TICK_WINDOW,
+    sensorGrade: "none",
+    sensorCount: DEFAULT_SENSOR_COUNT,
+    sensorPlacement: "zones",
+    actuationKey: "instant",
   });
 
 
@@ -65,6 +104,7 @@ export const GardenView: React.FC<GardenViewProps> = ({
   const [hoveredHoseCenter, setHoveredHoseCenter] = useState<{ x: number; y: number } | null>(null);
   const [overrideEpisodeEnd, setOverrideEpisodeEnd] = useState(false);
   const [selectedTrainingId, setSelectedTrainingId] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState<GridOverlay>("moisture");
 
   const regenerate = async () => {
     // Create the appropriate controller based on selection
@@ -90,6 +130,21 @@ export const GardenView: React.FC<GardenViewProps> = ({
       const fuzzy = new FuzzyClimateEvaluator();
       const nn = new HumidityPredictorNN(DEFAULT_HUMIDITY_PREDICTOR_CONFIG);
       controller = new SmartIrrigationController(fuzzy, nn, params);
+    } else if (config.controllerKey === 'rl') {
+      // Load the learned policy if one is selected (an empty one never irrigates)
+      let policy: RLPolicy | undefined;
+      if (selectedTrainingId) {
+        try {
+          const response = await fetch(`/api/policies/${selectedTrainingId}`);
+          if (response.ok) {
+            const data = await response.json();
+            policy = data.policy?.policy;
+          }
+        } catch (err) {
+          console.error('Failed to load policy:', err);
+        }
+      }
+      controller = new RLIrrigationController(policy);
     } else {
       const ControllerClass = CONTROLLERS[config.controllerKey as keyof typeof CONTROLLERS];
       controller = new ControllerClass();
@@ -106,6 +161,11 @@ export const GardenView: React.FC<GardenViewProps> = ({
       seed: config.seed,
       coverageRadius: config.coverageRadius,
       controller,
+      forecastHorizon: config.forecastHorizon,
+      simConfig: VALVE_ACTUATION_PRESETS[config.actuationKey],
+      sensors: config.sensorGrade === "none"
+        ? undefined
+        : { count: config.sensorCount, placement: config.sensorPlacement, hardware: SENSOR_HARDWARE[config.sensorGrade] },
     };
     simRef.current = new GardenSimulation(options);
     setGarden(simRef.current.garden);
@@ -119,16 +179,43 @@ export const GardenView: React.FC<GardenViewProps> = ({
     setConfig((prev) => ({ ...prev, seed: newSeed }));
   };
 
-  // Precompute hose tiles for fast lookups
+  // Precompute hose tiles for fast lookups (tile key -> id of the first hose laid on it)
   const hoseTiles = useMemo(() => {
-    const set = new Set<string>();
-    if (!garden?.hoses) return set;
+    const map = new Map<string, string>();
+    if (!garden?.hoses) return map;
     for (const hose of garden.hoses) {
       for (const p of hose.tiles) {
-        set.add(`${p.x}-${p.y}`);
+        const key = `${p.x}-${p.y}`;
+        if (!map.has(key)) map.set(key, hose.id);
+      }
+    }
+    return map;
+  }, [garden]);
+
+  // Display color of each hose, taken from the zone it belongs to
+  const hoseColors = useMemo(() => {
+    const map = new Map<string, string>();
+    garden?.zones.forEach((zone, i) => {
+      for (const hoseId of zone.hoseIds) {
+        if (!map.has(hoseId)) map.set(hoseId, zoneColor(i));
       }
+    });
+    return map;
+  }, [garden]);
+
+  // Border style of each hose, by emitter type
+  const hoseBorders = useMemo(() => {
+    const borders: Record<Garden.EmitterPattern, string> = {
+      diamond: "1px solid",
+      line: "1px dashed",
+      point: "1px dotted",
+      circle: "3px double",
+    };
+    const map = new Map<string, string>();
+    for (const hose of garden?.hoses ?? []) {
+      map.set(hose.id, borders[getEmitterType(hose).pattern]);
     }
-    return set;
+    return map;
   }, [garden]);
 
   // initial generation and regenerate when controller or training changes
@@ -154,6 +241,21 @@ export const GardenView: React.FC<GardenViewProps> = ({
 
   if (!garden || !simulation) return <div>Generating garden…</div>;
 
+  const speciesCounts = new Map<string, { color: string; count: number }>();
+  for (const tile of garden.tiles.flat()) {
+    if (!tile.hasPlant) continue;
+    const species = getPlantSpecies(tile);
+    const entry = speciesCounts.get(species.name) ?? { color: species.color, count: 0 };
+    entry.count++;
+    speciesCounts.set(species.name, entry);
+  }
+
+  // Soil moisture probes by tile key
+  const sensorTiles = new Map(simulation.sensors.map((sensor) => [`${sensor.position.x}-${sensor.position.y}`, sensor]));
+
+  const openValveCount = Object.values(simulation.valves).filter(Boolean).length;
+  const valveCount = Object.keys(simulation.valves).length;
+
   return (
     <div className="flex flex-col gap-3">
       {/* Row 1: title */}
@@ -295,6 +397,87 @@ export const GardenView: React.FC<GardenViewProps> = ({
             />
           </div>
 
+          {/* Forecast horizon */}
+          <div className="flex items-center gap-1">
+            <span>Forecast</span>
+            <Input
+              type="number"
+              className="w-20 h-8"
+              min={1}
+              max={10 * TICKS_PER_DAY}
+              step={1}
+              value={config.forecastHorizon}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isNaN(value)) return;
+                const clamped = Math.min(10 * TICKS_PER_DAY, Math.max(1, Math.round(value)));
+                setConfig((prev) => ({
+                  ...prev,
+                  forecastHorizon: clamped,
+                }));
+              }}
+            />
+          </div>
+
+          {/* Soil moisture probes */}
+          <div className="flex items-center gap-1">
+            <span>Sensors</span>
+            <select
+              className="rounded-md border px-2 h-8 text-xs"
+              value={config.sensorGrade}
+              onChange={(e) => setConfig((prev) => ({ ...prev, sensorGrade: e.target.value as GardenConfig["sensorGrade"] }))}
+            >
+              <option value="none">none (perfect)</option>
+              {Object.keys(SENSOR_HARDWARE).map((grade) => (
+                <option key={grade} value={grade}>{grade}</option>
+              ))}
+            </select>
+            {config.sensorGrade !== "none" && (
+              <Input
+                type="number"
+                className="w-16 h-8"
+                min={1}
+                max={50}
+                step={1}
+                value={config.sensorCount}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (Number.isNaN(value)) return;
+                  setConfig((prev) => ({
+                    ...prev,
+                    sensorCount: Math.min(50, Math.max(1, Math.round(value))),
+                  }));
+                }}
+              />
+            )}
+            {config.sensorGrade !== "none" && (
+              <select
+                className="rounded-md border px-2 h-8 text-xs"
+                title="Sensor placement"
+                value={config.sensorPlacement}
+                onChange={(e) => setConfig((prev) => ({ ...prev, sensorPlacement: e.target.value as SensorPlacementStrategy }))}
+              >
+                <option value="zones">by zone</option>
+                <option value="clusters">by moisture behaviour</option>
+                <option value="spread">spread</option>
+              </select>
+            )}
+          </div>
+
+          {/* Valve hardware */}
+          <div className="flex items-center gap-1">
+            <span>Valves</span>
+            <select
+              className="rounded-md border px-2 h-8 text-xs"
+              value={config.actuationKey}
+              onChange={(e) => setConfig((prev) => ({ ...prev, actuationKey: e.target.value as ValveActuationKey }))}
+            >
+              {Object.keys(VALVE_ACTUATION_PRESETS).map((key) => (
+                <option key={key} value={key}>{key}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Controller selection */}
           <div className="flex items-center gap-1">
             <span>Controller</span>
@@ -329,7 +512,13 @@ export const GardenView: React.FC<GardenViewProps> = ({
             >
               {(garden.tiles.flat() as Garden.Tile[]).map((tile) => {
                 const key = `${tile.x}-${tile.y}`;
-                const hasHose = hoseTiles.has(key);
+                const hoseId = hoseTiles.get(key);
+                const hasHose = hoseId !== undefined;
+                const valveOpen = hasHose && simulation.valves[hoseId];
+                const hoseColor = (hasHose && hoseColors.get(hoseId)) || "#0ea5e9";
+                const sensor = sensorTiles.get(key);
+                // Lines fill and drain gradually under realistic valve hardware
+                const flow = hasHose ? simulation.valveActuators[hoseId]?.flow ?? 0 : 0;
 
                 const isInWateringRange =
                   hoveredHoseCenter !== null &&
@@ -343,7 +532,11 @@ export const GardenView: React.FC<GardenViewProps> = ({
                     style={{
                       width: 18,
                       height: 18,
-                      backgroundColor: tileColor(tile),
+                      backgroundColor: tileColor(
+                        tile,
+                        overlay,
+                        simulation.weather.sunIntensity * (simulation.sunExposure[tile.y]?.[tile.x] ?? 1)
+                      ),
                       position: "relative",
                     }}
                     onMouseEnter={() => {
@@ -356,6 +549,16 @@ export const GardenView: React.FC<GardenViewProps> = ({
                         setHoveredHoseCenter(null);
                       }
                     }}
+                    onClick={() => {
+                      // Manual mode: clicking a hose toggles its valve
+                      if (!hasHose || config.controllerKey !== 'manual') return;
+                      const controller = controllerRef.current;
+                      controller.setValve(hoseId, !controller.isValveEnabled(hoseId));
+                      if (simRef.current) {
+                        setSimulation({ ...simRef.current.state });
+                      }
+                    }}
+                    title={hasHose ? `${hoseId} (${valveOpen ? 'open' : 'closed'}, ${Math.round(flow * 100)}% flow)` : undefined}
                   >
                     {/* Watering overlay when hovering a hose */}
                     {isInWateringRange && (
@@ -370,13 +573,19 @@ export const GardenView: React.FC<GardenViewProps> = ({
                       />
                     )}
 
-                    {tile.hasPlant && (
+                    {(tile.hasPlant || tile.plant) && (
                       <div
+                        title={
+                          tile.hasPlant
+                            ? `${getPlantSpecies(tile).name} (${tile.moisture.toFixed(2)}, health ${((tile.plant?.health ?? 1) * 100).toFixed(0)}%)`
+                            : `${getPlantSpecies(tile).name} (dead)`
+                        }
                         style={{
                           width: 10,
                           height: 10,
                           borderRadius: "50%",
-                          backgroundColor: "#16a34a",
+                          backgroundColor: tile.hasPlant ? getPlantSpecies(tile).color : "#78716c",
+                          opacity: tile.hasPlant ? 0.4 + 0.6 * (tile.plant?.health ?? 1) : 0.6,
                           margin: "auto",
                           position: "absolute",
                           inset: 0,
@@ -390,13 +599,37 @@ export const GardenView: React.FC<GardenViewProps> = ({
                           position: "absolute",
                           inset: 1,
                           borderRadius: 9999,
-                          border: "1px solid #0ea5e9",
+                          border: `${hoseBorders.get(hoseId) ?? "1px solid"} ${hoseColor}`,
                           pointerEvents: "none",
-                          backgroundColor: "rgba(14, 165, 233, 0.1)"
+                          backgroundColor: flow > 0
+                            ? `${hoseColor}${Math.round(0x1a + flow * (0x59 - 0x1a)).toString(16).padStart(2, "0")}`
+                            : `${hoseColor}1a`,
 
                         }}
                       />
                     )}
+
+                    {/* Soil moisture probe: a small square in the corner, red when stuck */}
+                    {sensor && (
+                      <div
+                        title={
+                          `${sensor.id}: ` +
+                          (sensor.reading === null ? "no reading yet" : `reads ${sensor.reading.toFixed(2)} (tick ${sensor.readingTick})`) +
+                          `, true ${tile.moisture.toFixed(2)}` +
+                          (sensor.stuck ? ", stuck" : "")
+                        }
+                        style={{
+                          position: "absolute",
+                          top: 0,
+                          right: 0,
+                          width: 6,
+                          height: 6,
+                          backgroundColor: sensor.stuck ? "#dc2626" : "#facc15",
+                          border: "1px solid #111",
+                          opacity: simulation.tick - sensor.readingTick > sensor.samplingInterval ? 0.5 : 1,
+                        }}
+                      />
+                    )}
                   </div>
                 );
               })}
@@ -442,6 +675,9 @@ export const GardenView: React.FC<GardenViewProps> = ({
                   Irrigation: {controllerRef.current.isIrrigationEnabled() ? "On" : "Off"}
                 </button>
               )}
+              {config.controllerKey === 'manual' && (
+                <span className="text-xs text-gray-500">Click a hose to toggle its valve</span>
+              )}
 
               <div className="flex flex-col gap-2 text-xs text-gray-500 border rounded p-2">
                 <div>Tick: {simulation.tick}</div>
@@ -459,6 +695,38 @@ export const GardenView: React.FC<GardenViewProps> = ({
                     {simulation.irrigationOn ? 'ON' : 'OFF'}
                   </div>
                 </div>
+                <div>Valves open: {openValveCount}/{valveCount}</div>
+              </div>
+
+              <div className="flex flex-col gap-1 text-xs text-gray-500 border rounded p-2">
+                <label className="flex items-center justify-between gap-2">
+                  <span>Overlay</span>
+                  <select
+                    className="rounded-md border px-1 h-6 text-xs"
+                    value={overlay}
+                    onChange={(e) => setOverlay(e.target.value as GridOverlay)}
+                  >
+                    <option value="moisture">moisture</option>
+                    <option value="soil">soil</option>
+                    <option value="elevation">elevation</option>
+                    <option value="sun">sun / shade</option>
+                  </select>
+                </label>
+                {overlay === "soil" && Object.values(SOIL_TYPES).map((soil) => (
+                  <div key={soil.id} className="flex items-center gap-2">
+                    <span className="inline-block w-2 h-2" style={{ backgroundColor: soil.color }} />
+                    {soil.name}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-col gap-1 text-xs text-gray-500 border rounded p-2">
+                {[...speciesCounts.entries()].map(([name, { color, count }]) => (
+                  <div key={name} className="flex items-center gap-2">
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                    {name}: {count}
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -469,9 +737,10 @@ export const GardenView: React.FC<GardenViewProps> = ({
           <div className="flex flex-col gap-4">
             <EpisodeResults results={simulation.results} />
             <MetricsPanel state={simulation} garden={garden} />
+            <ZonesPanel state={simulation} garden={garden} />
           </div>
           <div className="flex flex-col gap-4">
-            <RainForecastTable forecast={simulation.forecast} currentTick={simulation.tick} />
+            <ForecastPanel forecast={simulation.forecast} currentTick={simulation.tick} />
             <MoistureStatusMap tiles={garden.tiles} />
           </div>
         </aside>
@@ -61,12 +61,49 @@ export function MetricsPanel({ state, garden }: MetricsPanelProps) {
         {/* Water usage */}
         <div className="flex justify-between">
           <span>Water Used (this tick)</span>
-          <span>{metrics.waterUsedThisTick.toFixed(1)}</span>
+          <span>{metrics.waterUsedThisTick.toFixed(1)} / {state.waterRequestedThisTick.toFixed(1)} requested</span>
         </div>
         <div className="flex justify-between">
           <span>Cumulative Water Used</span>
           <span>{metrics.cumulativeWaterUsed.toFixed(1)}</span>
         </div>
+        {/* Soil water budget so far */}
+        <div className="flex justify-between">
+          <span>Water Budget (in / out)</span>
+          <span>
+            {(state.cumulativeWaterLedger.irrigationIn + state.cumulativeWaterLedger.rainIn).toFixed(1)} /{' '}
+            {(
+              state.cumulativeWaterLedger.evaporationOut +
+              state.cumulativeWaterLedger.transpirationOut +
+              state.cumulativeWaterLedger.drainedOut
+            ).toFixed(1)}
+          </span>
+        </div>
+        {state.config.evapotranspirationModel !== 'linear' && (
+          <div className="flex justify-between">
+            <span>Evaporation / Transpiration</span>
+            <span>
+              {state.cumulativeWaterLedger.evaporationOut.toFixed(1)} /{' '}
+              {state.cumulativeWaterLedger.transpirationOut.toFixed(1)}
+            </span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>Clamp (overflow / underflow)</span>
+          <span>
+            {state.cumulativeWaterLedger.overflowOut.toFixed(1)} / {state.cumulativeWaterLedger.underflowIn.toFixed(1)}
+          </span>
+        </div>
+        {/* Water sources */}
+        {state.waterSources.map((source) => (
+          <div key={source.id} className="flex justify-between">
+            <span>Source ({source.position.x}, {source.position.y})</span>
+            <span>
+              {source.flowRate.toFixed(1)}/tick
+              {source.tankCapacity > 0 && ` · tank ${source.tankLevel.toFixed(1)}/${source.tankCapacity.toFixed(0)}`}
+            </span>
+          </div>
+        ))}
       </CardContent>
     </Card>
   );
@@ -3,7 +3,7 @@
 import React from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Garden } from '../types';
-import { IDEAL_MAX_MOISTURE, IDEAL_MIN_MOISTURE } from '../consts';
+import { classifyPlantMoisture, getPlantSpecies } from '../plants';
 
 interface MoistureStatusMapProps {
   tiles: Garden.Tile[][];
@@ -20,9 +20,9 @@ export function MoistureStatusMap({ tiles }: MoistureStatusMapProps) {
       // Only consider tiles that actually have a plant
       if (!tile.hasPlant) continue;
       plantCount++;
-      const m = tile.moisture;
-      if (m < IDEAL_MIN_MOISTURE) dryCount++;
-      else if (m > IDEAL_MAX_MOISTURE) wetCount++;
+      const status = classifyPlantMoisture(tile);
+      if (status === 'dry') dryCount++;
+      else if (status === 'flooded') wetCount++;
       // (implicitly, else means in good range)
     }
   }
@@ -46,10 +46,10 @@ export function MoistureStatusMap({ tiles }: MoistureStatusMapProps) {
                 let colorClass = 'bg-slate-200';
                 let title = `(${y},${x}) empty`;
                 if (tile.hasPlant) {
-                  const moisture = tile.moisture;
-                  title = `(${y},${x}) moisture ${moisture.toFixed(2)}`;
-                  if (moisture < IDEAL_MIN_MOISTURE) colorClass = 'bg-red-500'; // thirsty
-                  else if (moisture > IDEAL_MAX_MOISTURE) colorClass = 'bg-blue-500'; // drowning
+                  const status = classifyPlantMoisture(tile);
+                  title = `(${y},${x}) ${getPlantSpecies(tile).name} moisture ${tile.moisture.toFixed(2)}`;
+                  if (status === 'dry') colorClass = 'bg-red-500'; // thirsty
+                  else if (status === 'flooded') colorClass = 'bg-blue-500'; // drowning
                   else colorClass = 'bg-green-500'; // good
                 }
                 return (
@@ -0,0 +1,48 @@
+'use client';
+
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { useGardenMetrics } from '../metrics';
+import { Garden, Simulation } from '../types';
+
+const ZONE_COLORS = ['#0ea5e9', '#f97316', '#a855f7', '#22c55e', '#eab308', '#ec4899', '#14b8a6', '#ef4444'];
+
+/** Stable display color for the zone at the given index */
+export function zoneColor(index: number): string {
+  return ZONE_COLORS[index % ZONE_COLORS.length];
+}
+
+interface ZonesPanelProps {
+  state: Simulation.State
+  garden: Garden
+}
+
+export function ZonesPanel({ state, garden }: ZonesPanelProps) {
+  const metrics = useGardenMetrics(state, garden);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Irrigation Zones 🗺️</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {garden.zones.length === 0 && <div className="text-muted-foreground">No zones</div>}
+        {garden.zones.map((zone, i) => {
+          const zoneMetrics = metrics.zones.find((z) => z.zoneId === zone.id);
+          const openHoses = zone.hoseIds.filter((id) => state.valves[id]).length;
+          return (
+            <div key={zone.id} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: zoneColor(i) }} />
+                {zone.name}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {openHoses}/{zone.hoseIds.length} open · {zone.plants.length} plants
+                {zoneMetrics && ` · avg ${zoneMetrics.avgMoisture.toFixed(2)} · dry ${zoneMetrics.percentTooDry}%`}
+              </span>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
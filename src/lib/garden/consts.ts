@@ -10,6 +10,9 @@ export const EPISODE_LENGTH=1000
 
 export const FORECAST_TICK_WINDOW = 10
 
+/** Fraction of the day the sun is up, for weather models without seasons */
+export const DEFAULT_DAY_LENGTH = 0.5
+
 export const TILE_MOISTURE_DRY=0
 export const TILE_MOISTURE_GOOD=0.7
 export const TILE_MOISTURE_FLOODED=1.3
@@ -20,5 +23,6 @@ export const GARDEN_PATH_BRANCH_COUNT=6
 export const SCORE_WEIGHT_HEALTH_RATIO = 0.6
 export const SCORE_WEIGHT_DRY_PENALTY = 0.1
 export const SCORE_WEIGHT_FLOOD_PENALTY = 0.2
+export const SCORE_WEIGHT_DEATH_PENALTY = 0.3
 export const SCORE_WEIGHT_WATER_EFFICIENCY = 0.1
 
@@ -5,12 +5,14 @@ import { IrrigationController, Simulation } from "../types";
  */
 export class ManualIrrigationController implements IrrigationController {
     private irrigationEnabled: boolean = false;
+    private valveOverrides: Simulation.ValveStates = {};
 
     /**
-     * Set whether irrigation should be on or off
+     * Set whether irrigation should be on or off (for every valve)
      */
     setIrrigation(enabled: boolean): void {
         this.irrigationEnabled = enabled;
+        this.valveOverrides = {};
     }
 
     /**
@@ -20,10 +22,29 @@ export class ManualIrrigationController implements IrrigationController {
         return this.irrigationEnabled;
     }
 
+    /**
+     * Open or close a single valve, overriding the global irrigation switch
+     */
+    setValve(hoseId: string, enabled: boolean): void {
+        this.valveOverrides[hoseId] = enabled;
+    }
+
+    /**
+     * Get the state of a single valve (its override, or the global switch)
+     */
+    isValveEnabled(hoseId: string): boolean {
+        return this.valveOverrides[hoseId] ?? this.irrigationEnabled;
+    }
+
     /**
      * Decide on irrigation based on the manually set state
      */
-    decide(): boolean {
-        return this.irrigationEnabled;
+    decide(_metrics: Simulation.Metrics, state: Simulation.State): Simulation.IrrigationDecision {
+        if (Object.keys(this.valveOverrides).length === 0) {
+            return this.irrigationEnabled;
+        }
+        return Object.fromEntries(
+            Object.keys(state.valves).map((hoseId) => [hoseId, this.isValveEnabled(hoseId)])
+        );
     }
 }
@@ -0,0 +1,326 @@
+import { Garden, IrrigationController, Simulation, Weather } from "../types";
+import {
+  SCORE_WEIGHT_DEATH_PENALTY,
+  SCORE_WEIGHT_DRY_PENALTY,
+  SCORE_WEIGHT_FLOOD_PENALTY,
+  SCORE_WEIGHT_HEALTH_RATIO,
+  SCORE_WEIGHT_WATER_EFFICIENCY,
+  WATER_USAGE_PER_TICK,
+} from "../consts";
+import { mulberry32 } from "../../utils";
+import { stepGardenMoisture } from "../simulation";
+import { computeSunExposure } from "../shade";
+import { planIrrigation } from "../irrigation";
+import { resolveValveStates } from "../valves";
+import { classifyPlantMoisture, getPlantSpecies, stepPlantGrowth } from "../plants";
+
+/** Cost of one plant-tick in the rollouts; the defaults mirror the episode score */
+export interface MpcCostWeights {
+  /** Per plant-tick outside its ideal range */
+  unhealthy: number;
+  /** Per dry plant-tick, times (1 - droughtTolerance) */
+  dry: number;
+  /** Per flooded plant-tick, times (1 - floodTolerance) */
+  flood: number;
+  /** Per plant-tick a plant spends dead, on top of `unhealthy` */
+  death: number;
+  /** Per unit of water per plant, relative to `WATER_USAGE_PER_TICK` */
+  water: number;
+  /** Per switch of the irrigation, spread over the plants */
+  toggle: number;
+}
+
+export interface MpcOptions {
+  /** Ticks rolled forward (no further than the forecast reaches) */
+  horizon: number;
+  /** On/off schedules tried each tick */
+  candidates: number;
+  /** Ticks per schedule step; schedules only switch between steps */
+  blockLength: number;
+  /** Ticks between plans; in between it follows the last plan's schedule */
+  replanInterval: number;
+  weights: MpcCostWeights;
+  /** Seeds the random schedules */
+  seed: number;
+}
+
+export const DEFAULT_MPC_OPTIONS: MpcOptions = {
+  horizon: 6,
+  candidates: 4,
+  blockLength: 3,
+  replanInterval: 3,
+  weights: {
+    unhealthy: SCORE_WEIGHT_HEALTH_RATIO,
+    dry: SCORE_WEIGHT_DRY_PENALTY,
+    flood: SCORE_WEIGHT_FLOOD_PENALTY,
+    death: SCORE_WEIGHT_DEATH_PENALTY,
+    water: SCORE_WEIGHT_WATER_EFFICIENCY,
+    toggle: 0,
+  },
+  seed: 1,
+};
+
+/** The garden at the end of a schedule prefix, and what it cost to get there */
+interface Rollout {
+  garden: Garden;
+  cost: number;
+  on: boolean;
+}
+
+/** Mean moisture of the living plants among `positions` (NaN if there are none) */
+function meanPlantMoisture(moisture: number[][], garden: Garden, positions: Garden.Position[]): number {
+  const living = positions.filter(({ x, y }) => garden.tiles[y][x].hasPlant);
+  return living.reduce((sum, { x, y }) => sum + moisture[y][x], 0) / living.length;
+}
+
+/**
+ * Pull a predicted garden toward what the controller can see: every tile
+ * is shifted so the plants' mean matches the garden-wide estimate, then
+ * each zone's plants so their mean matches the zone's, and tiles with a
+ * probe reading take the reading.
+ */
+function correctEstimate(predicted: Garden, metrics: Simulation.Metrics, state: Simulation.State): Garden {
+  const moisture = predicted.tiles.map((row) => row.map((tile) => tile.moisture));
+  const plants = predicted.tiles.flat().filter((t) => t.hasPlant);
+
+  const gardenShift = metrics.avgMoisture - meanPlantMoisture(moisture, predicted, plants);
+  if (Number.isFinite(gardenShift)) {
+    for (const row of moisture) row.forEach((m, x) => (row[x] = m + gardenShift));
+  }
+  for (const zone of predicted.zones) {
+    const estimate = metrics.zones.find((z) => z.zoneId === zone.id);
+    const zoneShift = (estimate?.avgMoisture ?? NaN) - meanPlantMoisture(moisture, predicted, zone.plants);
+    if (!Number.isFinite(zoneShift)) continue;
+    for (const { x, y } of zone.plants) moisture[y][x] += zoneShift;
+  }
+  for (const { position, reading } of state.sensors) {
+    if (reading !== null && moisture[position.y]?.[position.x] !== undefined) {
+      moisture[position.y][position.x] = reading;
+    }
+  }
+
+  return {
+    ...predicted,
+    tiles: predicted.tiles.map((row, y) => row.map((tile, x) => ({ ...tile, moisture: Math.max(0, moisture[y][x]) }))),
+  };
+}
+
+/**
+ * ModelPredictiveController
+ *
+ * Each tick it rolls the garden forward over the forecast under a set of
+ * on/off schedules with `stepGardenMoisture` and `stepPlantGrowth`, scores
+ * every rollout with the same terms as the episode score, and executes the
+ * first action of the cheapest schedule, which makes it a strong baseline
+ * to beat. Schedules that start the same share the rollout of their
+ * common start.
+ *
+ * It only sees what other controllers see. It keeps its own estimate of
+ * the garden, starting from the layout it gets through `setLayout`: each
+ * tick it steps the estimate with the valves and weather of the tick
+ * before, then corrects it with the metrics' zone estimates and the
+ * sensor readings (see `correctEstimate`). Without a layout it keeps the
+ * water off. The rollouts ignore supply limits and valve actuation lag.
+ */
+export class ModelPredictiveController implements IrrigationController {
+  private options: MpcOptions;
+  private rand: () => number;
+  private layout?: Garden;
+  /** The garden as estimated at the last decision */
+  private estimate?: Garden;
+  private lastTick = -1;
+  /** Schedule chosen at the last plan, and its tick */
+  private plan?: { tick: number; schedule: boolean[] };
+  /** Shade per tick; the layout never changes, so it is shared across ticks */
+  private sunCache = new Map<number, number[][]>();
+
+  constructor(options: Partial<MpcOptions> = {}) {
+    this.options = {
+      ...DEFAULT_MPC_OPTIONS,
+      ...options,
+      weights: { ...DEFAULT_MPC_OPTIONS.weights, ...options.weights },
+    };
+    this.rand = mulberry32(this.options.seed);
+  }
+
+  setLayout(layout: Garden): void {
+    this.layout = layout;
+    this.estimate = undefined;
+    this.plan = undefined;
+    this.sunCache.clear();
+  }
+
+  decide(metrics: Simulation.Metrics, state: Simulation.State): boolean {
+    if (!this.layout) return false;
+    const { config } = state;
+    // A new episode starts from freshly planted plants and nothing but the estimate
+    if (state.tick <= this.lastTick) {
+      this.estimate = undefined;
+      this.plan = undefined;
+    }
+    const predicted = this.estimate ? this.predict(this.estimate, state) : this.layout;
+    const garden = correctEstimate(predicted, metrics, state);
+    this.estimate = garden;
+    this.lastTick = state.tick;
+
+    const blockLength = this.blockLength();
+    const elapsed = this.plan ? state.tick - this.plan.tick : Infinity;
+    if (this.plan && elapsed < Math.max(1, Math.round(this.options.replanInterval))) {
+      const { schedule } = this.plan;
+      return schedule[Math.min(schedule.length - 1, Math.floor(elapsed / blockLength))];
+    }
+
+    const plants = garden.tiles.flat().filter((t) => t.hasPlant);
+    if (!plants.length || !garden.hoses.length) return false;
+
+    const weather = this.rolloutWeather(state);
+    const horizon = weather.length;
+    // Shade and the water an open garden gets are the same for every schedule
+    for (const tick of this.sunCache.keys()) {
+      if (tick < state.tick) this.sunCache.delete(tick);
+    }
+    const sun = weather.map((_, k) => this.sunExposure(garden, state.tick + k, state));
+    const open = resolveValveStates(true, garden.hoses);
+    const closed = resolveValveStates(false, garden.hoses);
+    const openWater = weather.map((w) => planIrrigation({ garden, config, valves: open, weather: w }));
+    const noWater = openWater[0].water.map((row) => row.map(() => 0));
+
+    const rollouts = new Map<string, Rollout>();
+    // Roll out a schedule, reusing the rollout of everything but its last step
+    const rollout = (steps: boolean[]): Rollout => {
+      const key = steps.map(Number).join("");
+      const cached = rollouts.get(key);
+      if (cached) return cached;
+
+      const start = steps.length > 1
+        ? rollout(steps.slice(0, -1))
+        : { garden, cost: 0, on: state.irrigationOn };
+      let { garden: current, cost, on } = start;
+      const irrigate = steps[steps.length - 1];
+      const end = Math.min(horizon, steps.length * blockLength);
+      for (let k = (steps.length - 1) * blockLength; k < end; k++) {
+        current = stepGardenMoisture({
+          garden: current,
+          config,
+          weather: weather[k],
+          valves: irrigate ? open : closed,
+          sunExposure: sun[k],
+          irrigation: irrigate ? openWater[k].water : noWater,
+        });
+        current = stepPlantGrowth(current, config.plantRecoveryRate);
+        cost += this.tickCost(current, plants, irrigate ? openWater[k].requested : 0, irrigate !== on);
+        on = irrigate;
+      }
+
+      const result = { garden: current, cost, on };
+      rollouts.set(key, result);
+      return result;
+    };
+
+    let best: boolean[] | undefined;
+    let bestCost = Infinity;
+    for (const schedule of this.schedules(Math.ceil(horizon / blockLength))) {
+      const { cost } = rollout(schedule);
+      // Ties go to the earlier schedule, and all-off comes first
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = schedule;
+      }
+    }
+    this.plan = best && { tick: state.tick, schedule: best };
+    return best?.[0] ?? false;
+  }
+
+  /** The estimate one tick on, under the valves and weather of that tick */
+  private predict(garden: Garden, state: Simulation.State): Garden {
+    const { config } = state;
+    const moved = stepGardenMoisture({
+      garden,
+      config,
+      weather: state.weather,
+      valves: state.valves,
+      sunExposure: state.sunExposure,
+    });
+    return stepPlantGrowth(moved, config.plantRecoveryRate);
+  }
+
+  private sunExposure(garden: Garden, tick: number, state: Simulation.State): number[][] {
+    let sun = this.sunCache.get(tick);
+    if (!sun) {
+      sun = computeSunExposure(garden, tick, state.config, state.dayLength);
+      this.sunCache.set(tick, sun);
+    }
+    return sun;
+  }
+
+  private blockLength(): number {
+    return Math.max(1, Math.round(this.options.blockLength));
+  }
+
+  /** Forecast weather for each rollout tick; the current weather if there is no forecast */
+  private rolloutWeather(state: Simulation.State): Weather.State[] {
+    const forecast = state.forecast.slice(0, this.options.horizon).map((f) => f.weather);
+    return forecast.length ? forecast : [state.weather];
+  }
+
+  /**
+   * Candidate schedules, one entry per step of `blockLength` ticks: always
+   * off, always on, on for the first n steps then off, off for the first n
+   * steps then on, then random schedules until there are `candidates`
+   * distinct ones.
+   */
+  private schedules(blocks: number): boolean[][] {
+    const steps: boolean[][] = [
+      Array(blocks).fill(false),
+      Array(blocks).fill(true),
+    ];
+    for (let n = 1; n < blocks; n++) {
+      steps.push(Array.from({ length: blocks }, (_, b) => b < n));
+      steps.push(Array.from({ length: blocks }, (_, b) => b >= n));
+    }
+
+    const seen = new Set<string>();
+    const unique = steps.filter((s) => {
+      const key = s.map(Number).join("");
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    const count = Math.max(1, this.options.candidates);
+    // Give up on random ones once most of the possible schedules have been seen
+    for (let attempts = 0; unique.length < count && attempts < count * 4; attempts++) {
+      const s = Array.from({ length: blocks }, () => this.rand() < 0.5);
+      const key = s.map(Number).join("");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      unique.push(s);
+    }
+    return unique.slice(0, count);
+  }
+
+  /** Cost of one rollout tick, per plant */
+  private tickCost(garden: Garden, plants: Garden.Position[], water: number, toggled: boolean): number {
+    const { weights } = this.options;
+    const plantCount = plants.length;
+    let cost = 0;
+    for (const { x, y } of plants) {
+      const tile = garden.tiles[y][x];
+      if (!tile.hasPlant) {
+        cost += weights.unhealthy + weights.death;
+        continue;
+      }
+      const status = classifyPlantMoisture(tile);
+      if (status === "healthy") continue;
+      const species = getPlantSpecies(tile);
+      cost += weights.unhealthy;
+      cost += status === "dry"
+        ? weights.dry * (1 - species.droughtTolerance)
+        : weights.flood * (1 - species.floodTolerance);
+    }
+    return (
+      cost / plantCount +
+      (weights.water * water) / (plantCount * WATER_USAGE_PER_TICK) +
+      (toggled ? weights.toggle / plantCount : 0)
+    );
+  }
+}
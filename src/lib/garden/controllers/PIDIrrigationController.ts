@@ -0,0 +1,207 @@
+import { IrrigationController, Simulation } from "../types";
+import { TILE_MOISTURE_GOOD } from "../consts";
+import {
+  Chromosome,
+  GATrainerConfig,
+  GeneticAlgorithmTrainer,
+  ParamSpace,
+} from "./SmartIrrigationController/GeneticAlgorithmTrainer";
+import { GardenSimulationOptions } from "../GardenSimulation";
+
+/**
+ * What the controller regulates:
+ * - "avgMoisture": average plant moisture, setpoint in moisture units
+ * - "percentTooDry": share of plants below their ideal range, setpoint in percent
+ */
+export type PidTarget = "avgMoisture" | "percentTooDry";
+
+export interface PidGains {
+  /** Proportional gain: duty cycle per unit of error */
+  kp: number;
+  /** Integral gain: duty cycle per unit of error per tick */
+  ki: number;
+  /** Derivative gain: duty cycle per unit of error change per tick */
+  kd: number;
+}
+
+export interface PidOptions extends PidGains {
+  target: PidTarget;
+  setpoint: number;
+  /** Ticks per PWM period; the duty cycle is recomputed once a period */
+  pwmPeriod: number;
+  /** The integral term is kept within ±this (anti-windup) */
+  integralLimit: number;
+}
+
+export const DEFAULT_PID_OPTIONS: PidOptions = {
+  target: "avgMoisture",
+  setpoint: TILE_MOISTURE_GOOD,
+  kp: 4,
+  ki: 0.02,
+  kd: 0,
+  pwmPeriod: 10,
+  integralLimit: 1,
+};
+
+/**
+ * PIDIrrigationController
+ *
+ * A classic setpoint controller: once per PWM period it measures the
+ * error between the setpoint and the target metric (positive when the
+ * garden is too dry), computes
+ *
+ *   u = kp × error + ki × ∫error + kd × d(error)/dt
+ *
+ * and irrigates for the first `round(clamp(u, 0, 1) × pwmPeriod)` ticks
+ * of the period. Anti-windup: the integral stops growing while the output
+ * is saturated in the direction the error pushes, and never leaves
+ * ±`integralLimit`, so a long drought or a downpour doesn't leave it
+ * over- or under-watering long after.
+ *
+ * State resets when a new episode starts (tick 0).
+ */
+export class PIDIrrigationController implements IrrigationController {
+  private options: PidOptions;
+  private integral = 0;
+  private previousError: number | null = null;
+  private onTicks = 0;
+  private periodStart = 0;
+  private lastTick = -1;
+
+  constructor(options: Partial<PidOptions> = {}) {
+    this.options = { ...DEFAULT_PID_OPTIONS, ...options };
+  }
+
+  /** Positive when the garden is drier than the setpoint, roughly in [-1, 1] */
+  private error(metrics: Simulation.Metrics): number {
+    const { target, setpoint } = this.options;
+    return target === "avgMoisture"
+      ? setpoint - metrics.avgMoisture
+      : (metrics.percentTooDry - setpoint) / 100;
+  }
+
+  decide(metrics: Simulation.Metrics, state: Simulation.State): boolean {
+    const { kp, ki, kd, integralLimit } = this.options;
+    const period = Math.max(1, Math.round(this.options.pwmPeriod));
+
+    if (state.tick <= this.lastTick) {
+      this.integral = 0;
+      this.previousError = null;
+      this.onTicks = 0;
+    }
+    this.lastTick = state.tick;
+
+    if (state.tick % period === 0 || this.previousError === null) {
+      const error = this.error(metrics);
+      const derivative = this.previousError === null ? 0 : (error - this.previousError) / period;
+      const proportional = kp * error;
+
+      // Conditional integration: skip while saturated and the error would push further out
+      const integral = Math.max(-integralLimit, Math.min(integralLimit, this.integral + ki * error * period));
+      const output = proportional + integral + kd * derivative;
+      const saturated = (output > 1 && error > 0) || (output < 0 && error < 0);
+      if (!saturated) this.integral = integral;
+
+      const duty = Math.max(0, Math.min(1, proportional + this.integral + kd * derivative));
+      this.onTicks = Math.round(duty * period);
+      this.periodStart = state.tick;
+      this.previousError = error;
+    }
+
+    return state.tick - this.periodStart < this.onTicks;
+  }
+}
+
+/** Valid ranges of the evolved genes */
+const PID_GENE_RANGES = {
+  kp: [0, 20],
+  ki: [0, 0.2],
+  kd: [0, 20],
+} as const;
+
+/** Setpoints the GA may try, per target */
+const PID_SETPOINT_RANGES: Record<PidTarget, [number, number]> = {
+  avgMoisture: [0.2, 1.2],
+  percentTooDry: [0, 30],
+};
+
+/**
+ * ParamSpace for the PIDIrrigationController: evolves the gains and the
+ * setpoint; the target, PWM period and integral limit stay as in `base`.
+ *
+ * @param base - Fixed options (defaults to DEFAULT_PID_OPTIONS)
+ */
+export function createPidParamSpace(base: Partial<PidOptions> = {}): ParamSpace<PidOptions> {
+  const fixed = { ...DEFAULT_PID_OPTIONS, ...base };
+  const [setpointMin, setpointMax] = PID_SETPOINT_RANGES[fixed.target];
+  const clamp = (x: number, [min, max]: readonly [number, number]) => Math.max(min, Math.min(max, x));
+  const clampGenes = (params: PidOptions): PidOptions => ({
+    ...params,
+    kp: clamp(params.kp, PID_GENE_RANGES.kp),
+    ki: clamp(params.ki, PID_GENE_RANGES.ki),
+    kd: clamp(params.kd, PID_GENE_RANGES.kd),
+    setpoint: clamp(params.setpoint, [setpointMin, setpointMax]),
+  });
+
+  return {
+    random(rng) {
+      return {
+        ...fixed,
+        kp: rng() * PID_GENE_RANGES.kp[1],
+        ki: rng() * PID_GENE_RANGES.ki[1],
+        kd: rng() * PID_GENE_RANGES.kd[1],
+        setpoint: setpointMin + rng() * (setpointMax - setpointMin),
+      };
+    },
+
+    mutate(params, rng, gaussian, config) {
+      const mutated = { ...params };
+      // Noise relative to each gene's range
+      for (const gene of ["kp", "ki", "kd"] as const) {
+        if (rng() < config.mutationRate) {
+          mutated[gene] += gaussian() * config.mutationStdDev * PID_GENE_RANGES[gene][1] * 0.25;
+        }
+      }
+      if (rng() < config.mutationRate) {
+        mutated.setpoint += gaussian() * config.mutationStdDev * (setpointMax - setpointMin) * 0.25;
+      }
+      return clampGenes(mutated);
+    },
+
+    crossover(parent1, parent2, alpha) {
+      const blend = (gene: "kp" | "ki" | "kd" | "setpoint") => parent1[gene] * alpha + parent2[gene] * (1 - alpha);
+      return { ...fixed, kp: blend("kp"), ki: blend("ki"), kd: blend("kd"), setpoint: blend("setpoint") };
+    },
+
+    createController(params) {
+      return new PIDIrrigationController(params);
+    },
+  };
+}
+
+/**
+ * Convenience function to tune the PID controller with the GA.
+ *
+ * @param gardenOptions - Fixed garden options or factory function
+ * @param customConfig - Optional overrides for GA config
+ * @param base - Fixed PID options (target, PWM period, integral limit)
+ * @returns Best chromosome found
+ */
+export async function trainPidController(
+  gardenOptions: GardenSimulationOptions | (() => GardenSimulationOptions),
+  customConfig?: Partial<GATrainerConfig>,
+  base?: Partial<PidOptions>
+): Promise<Chromosome<PidOptions>> {
+  const gaConfig: GATrainerConfig = {
+    populationSize: 20,
+    generations: 15,
+    elitismRate: 0.3,
+    mutationStdDev: 0.2,
+    mutationRate: 0.6,
+    ...customConfig,
+  };
+
+  const trainer = new GeneticAlgorithmTrainer(gaConfig, createPidParamSpace(base));
+  const results = trainer.train({ episodesPerIndividual: 2, gardenOptions });
+  return results.bestChromosome;
+}
@@ -0,0 +1,174 @@
+import { IrrigationController, Simulation } from "../../types";
+import { TICKS_PER_DAY } from "../../consts";
+import { DqnPolicy, RLPolicy, TabularPolicy } from "./types";
+
+/**
+ * Helper to clamp a value to [min, max]
+ */
+function clamp(x: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, x));
+}
+
+/** Number of features from `encodeRLFeatures` */
+export const RL_FEATURE_COUNT = 10;
+
+/**
+ * Continuous features the policies see, all roughly in [0, 1]:
+ * soil moisture, dryness and wetness from the metrics, time of day as a
+ * point on the daily circle, whether irrigation is on and for how long it
+ * has been off, and current and forecast rain and evaporation drivers.
+ *
+ * @param metrics - Current metrics (as the controller sees them)
+ * @param state - Current simulation state
+ * @returns Feature vector of length RL_FEATURE_COUNT
+ */
+export function encodeRLFeatures(metrics: Simulation.Metrics, state: Simulation.State): number[] {
+  const { weather, forecast } = state;
+  const forecastRain = forecast.length
+    ? forecast.reduce((sum, f) => sum + f.weather.rainIntensity, 0) / forecast.length
+    : weather.rainIntensity;
+  const angle = 2 * Math.PI * metrics.timeOfDay;
+
+  return [
+    clamp(metrics.avgMoisture / 1.5, 0, 1),
+    clamp(metrics.percentTooDry / 100, 0, 1),
+    clamp(metrics.percentTooWet / 100, 0, 1),
+    (Math.sin(angle) + 1) / 2,
+    (Math.cos(angle) + 1) / 2,
+    metrics.irrigationOn ? 1 : 0,
+    clamp(metrics.ticksSinceLastIrrigation / TICKS_PER_DAY, 0, 1),
+    clamp(weather.rainIntensity, 0, 1),
+    clamp(forecastRain, 0, 1),
+    clamp((weather.temperature / 40) * weather.sunIntensity, 0, 1),
+  ];
+}
+
+/** Index of the first threshold `x` is below (the number of thresholds if none) */
+function bin(x: number, thresholds: number[]): number {
+  const i = thresholds.findIndex((t) => x < t);
+  return i < 0 ? thresholds.length : i;
+}
+
+/**
+ * Discretise features for the tabular policy: dryness (none / some /
+ * many / most), wetness (none / some / many), moisture in quarters, time
+ * of day in quarters, irrigation on/off and rain now or forecast.
+ * 4 × 3 × 4 × 4 × 2 × 2 = 768 states.
+ *
+ * @param features - Output of encodeRLFeatures
+ * @returns State key for TabularPolicy.q
+ */
+export function discretizeRLFeatures(features: number[]): string {
+  const [moisture, dry, wet, sin, cos, on, , rain, forecastRain] = features;
+  // Quarter of the day from the quadrant of its point on the circle, 0 = from midnight
+  const quarter = sin >= 0.5 ? (cos >= 0.5 ? 0 : 1) : (cos < 0.5 ? 2 : 3);
+
+  return [
+    bin(dry, [0.01, 0.1, 0.3]),
+    bin(wet, [0.01, 0.1]),
+    bin(moisture, [0.25, 0.5, 0.75]),
+    quarter,
+    on,
+    rain > 0.05 || forecastRain > 0.05 ? 1 : 0,
+  ].join(",");
+}
+
+/** Q-values of the DQN policy: hidden activations and [off, on] */
+export function dqnForward(policy: DqnPolicy, features: number[]): { hidden: number[]; q: [number, number] } {
+  const hidden = policy.b1.map((b, i) => {
+    let z = b;
+    const Wi = policy.W1[i];
+    for (let j = 0; j < features.length; j++) {
+      z += Wi[j] * features[j];
+    }
+    return z > 0 ? z : 0;
+  });
+  const [off, on] = policy.W2.map((Wk, k) =>
+    Wk.reduce((z, w, i) => z + w * hidden[i], policy.b2[k])
+  );
+  return { hidden, q: [off, on] };
+}
+
+/**
+ * Q-values for irrigation OFF and ON in the state the features describe.
+ */
+export function rlQValues(policy: RLPolicy, features: number[]): [number, number] {
+  if (policy.kind === "tabular") {
+    return policy.q[discretizeRLFeatures(features)] ?? [0, 0];
+  }
+  return dqnForward(policy, features).q;
+}
+
+/** A tabular policy that has learned nothing yet */
+export function createTabularPolicy(ticksPerDecision: number = 1): TabularPolicy {
+  return { kind: "tabular", ticksPerDecision, q: {} };
+}
+
+/**
+ * Exploration while training: with probability `epsilon` the action is
+ * a coin flip instead of the greedy one.
+ */
+export interface RLExploration {
+  epsilon: number;
+  rand: () => number;
+  /**
+   * Q-values a tabular policy's entry starts at when its state is first
+   * seen, so choosing and learning see the same value for it
+   */
+  initialQ?: number;
+}
+
+/**
+ * RLIrrigationController
+ *
+ * Acts greedily on a learned Q-function: irrigates when the estimated
+ * return of ON beats that of OFF (ties stay off), and holds each decision
+ * for the policy's `ticksPerDecision` ticks. The policy is learned
+ * tick by tick from reward by `RLTrainer`, either as a table over
+ * discretised features (Q-learning) or as a small network over the
+ * continuous ones (DQN).
+ *
+ * The features and chosen action of the last decision are kept for the
+ * trainer.
+ */
+export class RLIrrigationController implements IrrigationController {
+  private policy: RLPolicy;
+  private exploration?: RLExploration;
+  /** Features of the last decision */
+  lastFeatures: number[] = [];
+  /** Action of the last decision */
+  lastAction = false;
+
+  /**
+   * Create an RLIrrigationController.
+   *
+   * @param policy - Learned policy (an empty table never irrigates)
+   * @param exploration - Epsilon-greedy exploration, for training only
+   */
+  constructor(policy: RLPolicy = createTabularPolicy(), exploration?: RLExploration) {
+    this.policy = policy;
+    this.exploration = exploration;
+  }
+
+  decide(metrics: Simulation.Metrics, state: Simulation.State): boolean {
+    const interval = Math.max(1, Math.round(this.policy.ticksPerDecision));
+    if (state.tick % interval !== 0 && this.lastFeatures.length) return this.lastAction;
+
+    const features = encodeRLFeatures(metrics, state);
+    const initialQ = this.exploration?.initialQ;
+    if (initialQ !== undefined && this.policy.kind === "tabular") {
+      this.policy.q[discretizeRLFeatures(features)] ??= [initialQ, initialQ];
+    }
+    let action: boolean;
+    if (this.exploration && this.exploration.rand() < this.exploration.epsilon) {
+      action = this.exploration.rand() < 0.5;
+    } else {
+      const [off, on] = rlQValues(this.policy, features);
+      action = on > off;
+    }
+
+    this.lastFeatures = features;
+    this.lastAction = action;
+    return action;
+  }
+}
@@ -0,0 +1,346 @@
+import { GardenSimulation, GardenSimulationOptions } from "../../GardenSimulation";
+import { Simulation } from "../../types";
+import {
+  SCORE_WEIGHT_DEATH_PENALTY,
+  SCORE_WEIGHT_DRY_PENALTY,
+  SCORE_WEIGHT_FLOOD_PENALTY,
+  SCORE_WEIGHT_HEALTH_RATIO,
+  SCORE_WEIGHT_WATER_EFFICIENCY,
+  WATER_USAGE_PER_TICK,
+} from "../../consts";
+import { mulberry32 } from "../../../utils";
+import { DEFAULT_RL_TRAINER_CONFIG, DqnPolicy, RLPolicy, RLTrainerConfig, TabularPolicy } from "./types";
+import {
+  createTabularPolicy,
+  discretizeRLFeatures,
+  dqnForward,
+  RL_FEATURE_COUNT,
+  RLExploration,
+  RLIrrigationController,
+} from "./RLIrrigationController";
+
+/**
+ * The running totals of the simulation state the score is computed from.
+ */
+export interface RewardCounters {
+  healthyPlantTicks: number;
+  dryStressTicks: number;
+  floodStressTicks: number;
+  deadPlantTicks: number;
+  cumulativeWaterUsed: number;
+}
+
+/**
+ * Progress after each training episode.
+ */
+export interface RLTrainingProgress {
+  /** Current episode (0-indexed) */
+  episode: number;
+  /** Total episodes */
+  totalEpisodes: number;
+  /** Exploration rate during the episode */
+  epsilon: number;
+  /** Mean reward per tick (the score before clamping and rounding, / 100) */
+  meanReward: number;
+  /** Final score of the episode, exploration included */
+  score: number;
+}
+
+/**
+ * Results from a training run.
+ */
+export interface RLTrainingResults {
+  policy: RLPolicy;
+  /** Progress of every episode */
+  history: RLTrainingProgress[];
+}
+
+/** One step of experience: features, action, reward, next features (null at the end of an episode) */
+interface Transition {
+  features: number[];
+  action: boolean;
+  reward: number;
+  next: number[] | null;
+}
+
+/** Snapshot of the counters the reward is computed from */
+export function rewardCounters(state: Simulation.State): RewardCounters {
+  return {
+    healthyPlantTicks: state.healthyPlantTicks ?? 0,
+    dryStressTicks: state.dryStressTicks ?? 0,
+    floodStressTicks: state.floodStressTicks ?? 0,
+    deadPlantTicks: state.deadPlantTicks ?? 0,
+    cumulativeWaterUsed: state.cumulativeWaterUsed,
+  };
+}
+
+/**
+ * Reward for one tick, from how the score's counters moved during it.
+ *
+ * Uses the same weights as `compileResults`, per plant and normalized by
+ * the best possible raw score, so the mean reward over an episode times
+ * 100 is the final score before it is clamped and rounded (the per-tick
+ * water term isn't capped the way the episode's water penalty is).
+ *
+ * @param prev - Counters before the tick
+ * @param next - Counters after the tick
+ * @param plantCount - Plants in the garden, living or dead
+ */
+export function tickReward(prev: RewardCounters, next: RewardCounters, plantCount: number): number {
+  if (plantCount <= 0) return 0;
+  const healthy = next.healthyPlantTicks - prev.healthyPlantTicks;
+  const dry = next.dryStressTicks - prev.dryStressTicks;
+  const flood = next.floodStressTicks - prev.floodStressTicks;
+  const dead = next.deadPlantTicks - prev.deadPlantTicks;
+  const water = next.cumulativeWaterUsed - prev.cumulativeWaterUsed;
+
+  const raw =
+    (SCORE_WEIGHT_HEALTH_RATIO * healthy -
+      SCORE_WEIGHT_DRY_PENALTY * dry -
+      SCORE_WEIGHT_FLOOD_PENALTY * flood -
+      SCORE_WEIGHT_DEATH_PENALTY * dead) /
+      plantCount +
+    SCORE_WEIGHT_WATER_EFFICIENCY * (1 - water / (plantCount * WATER_USAGE_PER_TICK));
+  return raw / (SCORE_WEIGHT_HEALTH_RATIO + SCORE_WEIGHT_WATER_EFFICIENCY);
+}
+
+/**
+ * Average final score of a policy acting greedily.
+ *
+ * @param policy - Policy to evaluate
+ * @param gardenOptions - Fixed garden options or factory function
+ * @param episodes - Number of episodes to average over
+ */
+export function evaluateRLPolicy(
+  policy: RLPolicy,
+  gardenOptions: GardenSimulationOptions | (() => GardenSimulationOptions),
+  episodes: number = 1
+): number {
+  let total = 0;
+  for (let i = 0; i < episodes; i++) {
+    const gardenOpts = typeof gardenOptions === "function" ? gardenOptions() : gardenOptions;
+    const sim = new GardenSimulation({ ...gardenOpts, controller: new RLIrrigationController(policy) });
+    while (sim.state.tick < sim.state.episodeLength) {
+      sim.step();
+    }
+    total += sim.compileResults().finalScore;
+  }
+  return episodes > 0 ? total / episodes : 0;
+}
+
+/**
+ * RLTrainer
+ *
+ * Learns an RLIrrigationController policy from reward, tick by tick:
+ * 1. Run an episode with the controller acting epsilon-greedily
+ * 2. After every tick, reward it with `tickReward`; a decision earns the
+ *    mean reward of the ticks it was held for
+ * 3. Update the Q-function toward reward + gamma × max Q(next decision)
+ *    - "tabular": Q-learning on the table entry of the discretised state
+ *    - "dqn": SGD on minibatches replayed from recent experience, against
+ *      a target network that is refreshed every `targetSyncInterval` ticks
+ * 4. Decay epsilon linearly over the episodes and repeat
+ *
+ * Everything is plain TypeScript on the CPU, so it runs headless in Node.
+ */
+export class RLTrainer {
+  private config: RLTrainerConfig;
+  private rng: () => number;
+
+  constructor(config: Partial<RLTrainerConfig> = {}) {
+    this.config = { ...DEFAULT_RL_TRAINER_CONFIG, ...config };
+    this.rng = config.seed !== undefined ? mulberry32(config.seed) : () => Math.random();
+  }
+
+  /**
+   * Box-Muller Gaussian random number.
+   */
+  private gaussianRandom(): number {
+    return Math.sqrt(-2 * Math.log(1 - this.rng())) * Math.cos(2 * Math.PI * this.rng());
+  }
+
+  /**
+   * A DQN with He-initialized hidden weights, small output weights and zero biases.
+   */
+  private createDqnPolicy(): DqnPolicy {
+    const { hiddenSize } = this.config;
+    return {
+      kind: "dqn",
+      ticksPerDecision: this.config.ticksPerDecision,
+      inputSize: RL_FEATURE_COUNT,
+      hiddenSize,
+      W1: Array.from({ length: hiddenSize }, () =>
+        Array.from({ length: RL_FEATURE_COUNT }, () => this.gaussianRandom() * Math.sqrt(2 / RL_FEATURE_COUNT))
+      ),
+      b1: new Array(hiddenSize).fill(0),
+      W2: [0, 1].map(() => Array.from({ length: hiddenSize }, () => this.gaussianRandom() * 0.01)),
+      b2: [0, 0],
+    };
+  }
+
+  /**
+   * Q-learning update of one table entry; records the action as tried.
+   * Entries start at `initialQ` when the controller first sees their
+   * state (see `RLExploration`), so choosing and learning agree on them.
+   */
+  private updateTabular(policy: TabularPolicy, t: Transition, tried: Set<string>): void {
+    const { gamma, learningRate } = this.config;
+    const optimistic = this.config.initialQ;
+    const key = discretizeRLFeatures(t.features);
+    const q = policy.q[key] ?? [optimistic, optimistic];
+    const nextKey = t.next ? discretizeRLFeatures(t.next) : null;
+    const nextQ = nextKey ? (policy.q[nextKey] ?? [optimistic, optimistic]) : [0, 0];
+    const target = t.reward + (t.next ? gamma * Math.max(...nextQ) : 0);
+    const a = t.action ? 1 : 0;
+    q[a] += learningRate * (target - q[a]);
+    policy.q[key] = q;
+    tried.add(`${key}:${a}`);
+  }
+
+  /**
+   * The table as saved: optimistic values of actions that were never
+   * tried would make the greedy policy pick exactly those, so they become
+   * 0, and states where nothing was tried are dropped.
+   */
+  private exportTabular(policy: TabularPolicy, tried: Set<string>): TabularPolicy {
+    const q: TabularPolicy["q"] = {};
+    for (const [key, values] of Object.entries(policy.q)) {
+      const [off, on] = [0, 1].map((a) => (tried.has(`${key}:${a}`) ? values[a] : null));
+      if (off === null && on === null) continue;
+      q[key] = [off ?? 0, on ?? 0];
+    }
+    return { ...policy, q };
+  }
+
+  /**
+   * One SGD step on a replayed minibatch. TD errors are clipped to [-1, 1]
+   * (the Huber loss gradient) so early, wildly wrong targets can't blow up
+   * the weights.
+   */
+  private updateDqn(policy: DqnPolicy, target: DqnPolicy, replay: Transition[]): void {
+    const { gamma, learningRate, batchSize } = this.config;
+    const { hiddenSize } = policy;
+    if (replay.length < batchSize) return;
+
+    const gW1 = policy.W1.map((row) => row.map(() => 0));
+    const gb1 = new Array<number>(hiddenSize).fill(0);
+    const gW2 = policy.W2.map((row) => row.map(() => 0));
+    const gb2 = [0, 0];
+
+    for (let n = 0; n < batchSize; n++) {
+      const t = replay[Math.floor(this.rng() * replay.length)];
+      const { hidden, q } = dqnForward(policy, t.features);
+      const y = t.reward + (t.next ? gamma * Math.max(...dqnForward(target, t.next).q) : 0);
+      const a = t.action ? 1 : 0;
+      const error = Math.max(-1, Math.min(1, q[a] - y)) / batchSize;
+
+      gb2[a] += error;
+      for (let i = 0; i < hiddenSize; i++) {
+        gW2[a][i] += error * hidden[i];
+        if (hidden[i] <= 0) continue;
+        const dz = error * policy.W2[a][i];
+        gb1[i] += dz;
+        for (let j = 0; j < t.features.length; j++) {
+          gW1[i][j] += dz * t.features[j];
+        }
+      }
+    }
+
+    policy.W1.forEach((row, i) => row.forEach((_, j) => (row[j] -= learningRate * gW1[i][j])));
+    policy.b1.forEach((_, i) => (policy.b1[i] -= learningRate * gb1[i]));
+    policy.W2.forEach((row, k) => row.forEach((_, i) => (row[i] -= learningRate * gW2[k][i])));
+    policy.b2.forEach((_, k) => (policy.b2[k] -= learningRate * gb2[k]));
+  }
+
+  /**
+   * Train a policy from scratch, or keep training `initialPolicy`.
+   *
+   * @param gardenOptions - Fixed garden options or factory function (one garden per episode)
+   * @param onProgress - Optional callback after each episode
+   * @param initialPolicy - Policy to continue from (must match the configured algorithm)
+   * @returns The learned policy and per-episode progress
+   */
+  public train(
+    gardenOptions: GardenSimulationOptions | (() => GardenSimulationOptions),
+    onProgress?: (progress: RLTrainingProgress) => void,
+    initialPolicy?: RLPolicy
+  ): RLTrainingResults {
+    const { algorithm, episodes, epsilonStart, epsilonEnd, replayCapacity, targetSyncInterval, ticksPerDecision } = this.config;
+    if (initialPolicy && initialPolicy.kind !== algorithm) {
+      throw new Error(`Cannot continue a "${initialPolicy.kind}" policy with the "${algorithm}" algorithm`);
+    }
+    const policy: RLPolicy = initialPolicy ??
+      (algorithm === "dqn" ? this.createDqnPolicy() : createTabularPolicy(ticksPerDecision));
+    const interval = Math.max(1, Math.round(policy.ticksPerDecision));
+    let target = structuredClone(policy);
+    const replay: Transition[] = [];
+    // Table actions learned from; everything in a policy we continue from counts as tried
+    const tried = new Set<string>(
+      policy.kind === "tabular" ? Object.keys(policy.q).flatMap((key) => [`${key}:0`, `${key}:1`]) : []
+    );
+    const history: RLTrainingProgress[] = [];
+    let steps = 0;
+
+    for (let episode = 0; episode < episodes; episode++) {
+      const epsilon = episodes > 1
+        ? epsilonStart + ((epsilonEnd - epsilonStart) * episode) / (episodes - 1)
+        : epsilonEnd;
+      const exploration: RLExploration = { epsilon, rand: this.rng, initialQ: this.config.initialQ };
+      const controller = new RLIrrigationController(policy, exploration);
+      const gardenOpts = typeof gardenOptions === "function" ? gardenOptions() : gardenOptions;
+      const sim = new GardenSimulation({ ...gardenOpts, controller });
+      const plantCount = sim.garden.tiles.flat().filter((t) => t.hasPlant || t.plant).length;
+
+      let counters = rewardCounters(sim.state);
+      // The decision being held, and the reward it has earned so far
+      let pending: Transition | null = null;
+      let heldReward = 0;
+      let heldTicks = 0;
+      let totalReward = 0;
+
+      const learn = (t: Transition) => {
+        if (policy.kind === "tabular") {
+          this.updateTabular(policy, t, tried);
+          return;
+        }
+        // Ring buffer: once full, the oldest transition is overwritten
+        if (replay.length < replayCapacity) replay.push(t);
+        else replay[steps % replayCapacity] = t;
+        this.updateDqn(policy, target as DqnPolicy, replay);
+        if (++steps % targetSyncInterval === 0) target = structuredClone(policy);
+      };
+
+      while (sim.state.tick < sim.state.episodeLength) {
+        const decides = sim.state.tick % interval === 0;
+        sim.step();
+        if (decides) {
+          // The held decision ends in the state this one was made in
+          if (pending) learn({ ...pending, reward: heldReward / heldTicks, next: controller.lastFeatures });
+          pending = { features: controller.lastFeatures, action: controller.lastAction, reward: 0, next: null };
+          heldReward = 0;
+          heldTicks = 0;
+        }
+
+        const next = rewardCounters(sim.state);
+        const reward = tickReward(counters, next, plantCount);
+        counters = next;
+        heldReward += reward;
+        heldTicks++;
+        totalReward += reward;
+      }
+      if (pending) learn({ ...pending, reward: heldReward / Math.max(1, heldTicks) });
+
+      const progress: RLTrainingProgress = {
+        episode,
+        totalEpisodes: episodes,
+        epsilon,
+        meanReward: totalReward / Math.max(1, sim.state.tick),
+        score: sim.compileResults().finalScore,
+      };
+      history.push(progress);
+      onProgress?.(progress);
+    }
+
+    return { policy: policy.kind === "tabular" ? this.exportTabular(policy, tried) : policy, history };
+  }
+}
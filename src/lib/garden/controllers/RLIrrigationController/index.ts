@@ -0,0 +1,3 @@
+export * from './types'
+export * from './RLIrrigationController'
+export * from './RLTrainer'
\ No newline at end of file
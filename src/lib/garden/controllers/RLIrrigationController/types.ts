@@ -0,0 +1,93 @@
+/**
+ * TabularPolicy
+ *
+ * Q-values for irrigation OFF and ON per discretised state. States that
+ * were never visited are missing and count as [0, 0]; actions never tried
+ * in a visited state are stored as 0.
+ */
+export interface TabularPolicy {
+  kind: "tabular";
+  /** Ticks each decision is held for */
+  ticksPerDecision: number;
+  /** Q-values keyed by `discretizeRLFeatures(...)` */
+  q: Record<string, [number, number]>;
+}
+
+/**
+ * DqnPolicy
+ *
+ * A small MLP from the continuous feature vector to the Q-values for
+ * irrigation OFF and ON: ReLU hidden layer, linear outputs.
+ */
+export interface DqnPolicy {
+  kind: "dqn";
+  /** Ticks each decision is held for */
+  ticksPerDecision: number;
+  /** Number of input features */
+  inputSize: number;
+  /** Number of hidden neurons */
+  hiddenSize: number;
+  /** Weights for first layer: [hiddenSize][inputSize] */
+  W1: number[][];
+  /** Biases for first layer: [hiddenSize] */
+  b1: number[];
+  /** Weights for output layer: [2][hiddenSize] */
+  W2: number[][];
+  /** Biases for output layer: [2] */
+  b2: number[];
+}
+
+/** A learned policy; plain JSON, so it can be saved and loaded as is */
+export type RLPolicy = TabularPolicy | DqnPolicy;
+
+/**
+ * Configuration for the reinforcement learning trainer.
+ */
+export interface RLTrainerConfig {
+  /** "tabular" for Q-learning over discretised features, "dqn" for the MLP */
+  algorithm: RLPolicy["kind"];
+  /** Number of training episodes */
+  episodes: number;
+  /** Ticks each decision is held for; longer holds make delayed effects easier to learn */
+  ticksPerDecision: number;
+  /** Discount factor per decision */
+  gamma: number;
+  /** Step size of the Q updates */
+  learningRate: number;
+  /**
+   * Q-values table entries start at when their state is first seen
+   * (tabular only). Above what tried actions settle at, so untried ones
+   * get picked, but not so far above that the table takes hundreds of
+   * visits to come down.
+   */
+  initialQ: number;
+  /** Exploration rate at the first episode, decayed linearly... */
+  epsilonStart: number;
+  /** ...to this at the last one */
+  epsilonEnd: number;
+  /** Hidden neurons (dqn only) */
+  hiddenSize: number;
+  /** Transitions kept for replay (dqn only) */
+  replayCapacity: number;
+  /** Transitions per gradient step (dqn only) */
+  batchSize: number;
+  /** Ticks between copies of the online network into the target network (dqn only) */
+  targetSyncInterval: number;
+  /** Random seed for reproducibility */
+  seed?: number;
+}
+
+export const DEFAULT_RL_TRAINER_CONFIG: RLTrainerConfig = {
+  algorithm: "tabular",
+  episodes: 30,
+  ticksPerDecision: 5,
+  gamma: 0.98,
+  learningRate: 0.1,
+  initialQ: 10,
+  epsilonStart: 0.3,
+  epsilonEnd: 0.02,
+  hiddenSize: 32,
+  replayCapacity: 10000,
+  batchSize: 32,
+  targetSyncInterval: 500,
+};
@@ -38,6 +38,7 @@ export interface FuzzyRisks {
  *
  * Rules are based on common sense observations:
  * - Hot, sunny, dry air → high dryness risk
+ * - Wind with dry air, or wind with sun/heat → high dryness risk
  * - Many dry plants + no rain forecast → high dryness risk
  * - Many wet plants or heavy rain → flood risk
  * - Cool, low sun, high humidity → low evaporation → flood risk
@@ -47,24 +48,26 @@ export class FuzzyClimateEvaluator {
    * Evaluate current conditions and return fuzzy risk scores.
    *
    * @param metrics - Current simulation metrics (percentTooDry, percentTooWet, etc.)
-   * @param weather - Current weather state (temperature, humidity, sun, rain)
-   * @param forecast - Array of predicted rain intensities for the next N ticks
+   * @param weather - Current weather state (temperature, humidity, sun, rain, wind)
+   * @param forecast - Forecast weather and rain probability for the next N ticks
    * @returns FuzzyRisks with drynessRisk and floodRisk in [0, 1]
    */
   evaluate(
     metrics: Simulation.Metrics,
     weather: Weather.State,
-    forecast: number[]
+    forecast: Weather.Forecast[]
   ): FuzzyRisks {
     // Normalize inputs to [0, 1] ranges
     const tempNorm = clamp01(weather.temperature / 40); // assume 0–40°C
     const humNorm = clamp01(weather.humidity); // already 0–1
     const sunNorm = clamp01(weather.sunIntensity); // 0–1
     const rainNow = clamp01(weather.rainIntensity); // 0–1
+    const windNorm = clamp01(weather.windSpeed / 15); // assume 0–15 m/s
 
-    // Approximate "rain in near future" as max of forecast values
+    // Approximate "rain in near future" as the largest expected intensity
+    // (probability × intensity), so an unsure forecast counts for less
     const forecastRainSoon = clamp01(
-      Math.max(0, ...forecast.map(clamp01))
+      Math.max(0, ...forecast.map((f) => clamp01(f.rain.probability) * clamp01(f.rain.intensity)))
     );
 
     // --- Fuzzy membership functions ---
@@ -83,6 +86,9 @@ export class FuzzyClimateEvaluator {
     const sunLow = tri(sunNorm, 0.0, 0.2, 0.4);
     const sunMed = tri(sunNorm, 0.3, 0.5, 0.7);
 
+    // Wind sets
+    const windHigh = tri(windNorm, 0.2, 0.6, 1.0);
+
     // Rain sets
     const rainNowHigh = tri(rainNow, 0.3, 0.7, 1.0);
     const rainSoonHigh = tri(forecastRainSoon, 0.3, 0.7, 1.0);
@@ -103,7 +109,13 @@ export class FuzzyClimateEvaluator {
     // Rule 3: Moderate risk when temp and sun are both medium
     const ruleDry3 = Math.min(tempMed, sunMed);
 
-    let drynessRisk = Math.max(ruleDry1, ruleDry2, ruleDry3);
+    // Rule 4: Windy + dry air => wind strips moisture from the soil
+    const ruleDry4 = Math.min(windHigh, humLow);
+
+    // Rule 5: Windy + sunny or hot => evaporation well above what sun alone suggests
+    const ruleDry5 = Math.min(windHigh, Math.max(sunHigh, tempHigh));
+
+    let drynessRisk = Math.max(ruleDry1, ruleDry2, ruleDry3, ruleDry4, ruleDry5);
 
     // --- Fuzzy rules for floodRisk ---
 
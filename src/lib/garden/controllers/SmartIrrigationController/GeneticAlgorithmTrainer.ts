@@ -3,14 +3,14 @@ import { ControllerParams, DEFAULT_CONTROLLER_PARAMS } from "./types";
 import { SmartIrrigationController } from "./SmartIrrigationController";
 import { FuzzyClimateEvaluator } from "./FuzzyClimateEvaluator";
 import { HumidityPredictorNN, HumidityPredictorConfig, DEFAULT_HUMIDITY_PREDICTOR_CONFIG } from "./HumidityPredictorNN";
-import { Simulation } from "../../types";
+import { IrrigationController } from "../../types";
 
 /**
  * Chromosome represents a complete set of controller parameters.
  * In a GA, we mutate and crossover chromosomes to explore the parameter space.
  */
-export interface Chromosome {
-  params: ControllerParams;
+export interface Chromosome<P = ControllerParams> {
+  params: P;
   fitness: number;
 }
 
@@ -40,20 +40,129 @@ export interface EvaluationConfig {
   episodesPerIndividual: number;
   /** Options for garden generation; can be a factory or fixed */
   gardenOptions: GardenSimulationOptions | (() => GardenSimulationOptions);
-  /** NN config (same for all individuals during training) */
-  nnConfig: HumidityPredictorConfig;
+  /** NN config (same for all individuals during training; SmartIrrigationController only) */
+  nnConfig?: HumidityPredictorConfig;
 }
 
+/**
+ * ParamSpace
+ *
+ * What the GA needs to know about one kind of controller parameters: how
+ * to sample, vary and combine them, and how to build the controller they
+ * configure. SMART_PARAM_SPACE is the default.
+ */
+export interface ParamSpace<P> {
+  /** Sample a random individual */
+  random(rng: () => number): P;
+  /** Add Gaussian noise to some genes, then clamp every gene to its valid range */
+  mutate(params: P, rng: () => number, gaussian: () => number, config: GATrainerConfig): P;
+  /** Blend two parents; `alpha` is the weight of the first */
+  crossover(parent1: P, parent2: P, alpha: number): P;
+  /** The controller an evaluation episode runs with */
+  createController(params: P, evalConfig: EvaluationConfig): IrrigationController;
+}
+
+/**
+ * Clamp SmartIrrigationController params to their valid ranges.
+ */
+function clampSmartParams(params: Partial<ControllerParams>): ControllerParams {
+  return {
+    drynessWeight: Math.max(0, params.drynessWeight ?? 1),
+    floodWeight: Math.max(0, params.floodWeight ?? 1),
+    waterWeight: Math.max(0, params.waterWeight ?? 0.3),
+    predictionHorizonTicks: Math.max(1, Math.min(100, Math.round(params.predictionHorizonTicks ?? 10))),
+    fuzzyDrynessScale: Math.max(0, Math.min(1, params.fuzzyDrynessScale ?? 0.5)),
+    fuzzyFloodScale: Math.max(0, Math.min(1, params.fuzzyFloodScale ?? 0.4)),
+    minTicksBetweenToggles: Math.max(0, Math.round(params.minTicksBetweenToggles ?? 3)),
+    maxDutyCycle: Math.max(0.1, Math.min(1, params.maxDutyCycle ?? 0.6)),
+  };
+}
+
+/**
+ * ControllerParams for the SmartIrrigationController.
+ */
+export const SMART_PARAM_SPACE: ParamSpace<ControllerParams> = {
+  /**
+   * Generate a random ControllerParams by sampling from reasonable ranges.
+   */
+  random(rng) {
+    return {
+      drynessWeight: rng() * 3,        // 0 - 3
+      floodWeight: rng() * 2,          // 0 - 2
+      waterWeight: rng() * 1,          // 0 - 1
+      predictionHorizonTicks: Math.floor(rng() * 30 + 5), // 5 - 35 ticks
+      fuzzyDrynessScale: rng(),        // 0 - 1
+      fuzzyFloodScale: rng(),          // 0 - 1
+      minTicksBetweenToggles: Math.floor(rng() * 10 + 1), // 1 - 11 ticks
+      maxDutyCycle: rng() * 0.4 + 0.3, // 0.3 - 0.7
+    };
+  },
+
+  mutate(params, rng, gaussian, config) {
+    const mutated = { ...params };
+
+    // For each parameter, with probability mutationRate, add Gaussian noise
+    if (rng() < config.mutationRate) {
+      mutated.drynessWeight += gaussian() * config.mutationStdDev;
+    }
+    if (rng() < config.mutationRate) {
+      mutated.floodWeight += gaussian() * config.mutationStdDev;
+    }
+    if (rng() < config.mutationRate) {
+      mutated.waterWeight += gaussian() * config.mutationStdDev;
+    }
+    if (rng() < config.mutationRate) {
+      mutated.predictionHorizonTicks += Math.round(gaussian() * 2);
+    }
+    if (rng() < config.mutationRate) {
+      mutated.fuzzyDrynessScale += gaussian() * config.mutationStdDev * 0.5;
+    }
+    if (rng() < config.mutationRate) {
+      mutated.fuzzyFloodScale += gaussian() * config.mutationStdDev * 0.5;
+    }
+    if (rng() < config.mutationRate) {
+      mutated.minTicksBetweenToggles += Math.round(gaussian() * 1);
+    }
+    if (rng() < config.mutationRate) {
+      mutated.maxDutyCycle += gaussian() * config.mutationStdDev * 0.3;
+    }
+
+    return clampSmartParams(mutated);
+  },
+
+  crossover(parent1, parent2, alpha) {
+    return {
+      drynessWeight: parent1.drynessWeight * alpha + parent2.drynessWeight * (1 - alpha),
+      floodWeight: parent1.floodWeight * alpha + parent2.floodWeight * (1 - alpha),
+      waterWeight: parent1.waterWeight * alpha + parent2.waterWeight * (1 - alpha),
+      predictionHorizonTicks: Math.round(
+        parent1.predictionHorizonTicks * alpha + parent2.predictionHorizonTicks * (1 - alpha)
+      ),
+      fuzzyDrynessScale: parent1.fuzzyDrynessScale * alpha + parent2.fuzzyDrynessScale * (1 - alpha),
+      fuzzyFloodScale: parent1.fuzzyFloodScale * alpha + parent2.fuzzyFloodScale * (1 - alpha),
+      minTicksBetweenToggles: Math.round(
+        parent1.minTicksBetweenToggles * alpha + parent2.minTicksBetweenToggles * (1 - alpha)
+      ),
+      maxDutyCycle: parent1.maxDutyCycle * alpha + parent2.maxDutyCycle * (1 - alpha),
+    };
+  },
+
+  createController(params, evalConfig) {
+    const nn = new HumidityPredictorNN(evalConfig.nnConfig ?? DEFAULT_HUMIDITY_PREDICTOR_CONFIG);
+    return new SmartIrrigationController(new FuzzyClimateEvaluator(), nn, params);
+  },
+};
+
 /**
  * Results from a training run.
  */
-export interface TrainingResults {
+export interface TrainingResults<P = ControllerParams> {
   /** Best chromosome found */
-  bestChromosome: Chromosome;
+  bestChromosome: Chromosome<P>;
   /** History of best fitness per generation */
   fitnessHistory: number[];
   /** All final population */
-  finalPopulation: Chromosome[];
+  finalPopulation: Chromosome<P>[];
 }
 
 /**
@@ -75,7 +184,7 @@ export interface TrainingProgress {
 /**
  * GeneticAlgorithmTrainer
  *
- * Evolves ControllerParams using a simple GA:
+ * Evolves ControllerParams (or any other params, given their ParamSpace) using a simple GA:
  * 1. Initialize population with random/default params
  * 2. Evaluate fitness: run episode(s) with each individual, compute score
  * 3. Select elite individuals to survive
@@ -85,18 +194,31 @@ export interface TrainingProgress {
  * The fitness function is the episode's finalScore from GardenSimulation.compileResults().
  * A higher score = healthier plants, lower water usage, fewer toggles.
  */
-export class GeneticAlgorithmTrainer {
+export class GeneticAlgorithmTrainer<P = ControllerParams> {
   private config: GATrainerConfig;
   private rng: () => number;
-  private fuzzy: FuzzyClimateEvaluator;
+  private space: ParamSpace<P>;
 
-  constructor(config: GATrainerConfig) {
+  /**
+   * @param config - GA settings
+   * @param space - The params to evolve; see `forSmartController` for the SmartIrrigationController's
+   */
+  constructor(config: GATrainerConfig, space: ParamSpace<P>) {
     this.config = config;
     // Simple PRNG if seed provided, otherwise use Math.random
     this.rng = config.seed !== undefined 
       ? this.createSeededRNG(config.seed)
       : () => Math.random();
-    this.fuzzy = new FuzzyClimateEvaluator();
+    this.space = space;
+  }
+
+  /**
+   * A trainer that evolves ControllerParams for the SmartIrrigationController (SMART_PARAM_SPACE).
+   *
+   * @param config - GA settings
+   */
+  static forSmartController(config: GATrainerConfig): GeneticAlgorithmTrainer<ControllerParams> {
+    return new GeneticAlgorithmTrainer(config, SMART_PARAM_SPACE);
   }
 
   /**
@@ -116,47 +238,14 @@ export class GeneticAlgorithmTrainer {
     };
   }
 
-  /**
-   * Generate a random ControllerParams by sampling from reasonable ranges.
-   */
-  private randomParams(): ControllerParams {
-    return {
-      drynessWeight: this.rng() * 3,        // 0 - 3
-      floodWeight: this.rng() * 2,          // 0 - 2
-      waterWeight: this.rng() * 1,          // 0 - 1
-      predictionHorizonTicks: Math.floor(this.rng() * 30 + 5), // 5 - 35 ticks
-      fuzzyDrynessScale: this.rng(),        // 0 - 1
-      fuzzyFloodScale: this.rng(),          // 0 - 1
-      minTicksBetweenToggles: Math.floor(this.rng() * 10 + 1), // 1 - 11 ticks
-      maxDutyCycle: this.rng() * 0.4 + 0.3, // 0.3 - 0.7
-    };
-  }
-
-  /**
-   * Clamp a parameter to its valid range.
-   */
-  private clampParams(params: Partial<ControllerParams>): ControllerParams {
-    return {
-      drynessWeight: Math.max(0, params.drynessWeight ?? 1),
-      floodWeight: Math.max(0, params.floodWeight ?? 1),
-      waterWeight: Math.max(0, params.waterWeight ?? 0.3),
-      predictionHorizonTicks: Math.max(1, Math.min(100, Math.round(params.predictionHorizonTicks ?? 10))),
-      fuzzyDrynessScale: Math.max(0, Math.min(1, params.fuzzyDrynessScale ?? 0.5)),
-      fuzzyFloodScale: Math.max(0, Math.min(1, params.fuzzyFloodScale ?? 0.4)),
-      minTicksBetweenToggles: Math.max(0, Math.round(params.minTicksBetweenToggles ?? 3)),
-      maxDutyCycle: Math.max(0.1, Math.min(1, params.maxDutyCycle ?? 0.6)),
-    };
-  }
-
   /**
    * Evaluate fitness: run episode(s) and return average final score.
    */
   private evaluateFitness(
-    params: ControllerParams,
+    params: P,
     evalConfig: EvaluationConfig
   ): number {
-    const nn = new HumidityPredictorNN(evalConfig.nnConfig);
-    const controller = new SmartIrrigationController(this.fuzzy, nn, params);
+    const controller = this.space.createController(params, evalConfig);
 
     const scores: number[] = [];
 
@@ -187,36 +276,8 @@ export class GeneticAlgorithmTrainer {
   /**
    * Mutate a chromosome: add Gaussian noise to each gene.
    */
-  private mutate(params: ControllerParams): ControllerParams {
-    const mutated = { ...params };
-
-    // For each parameter, with probability mutationRate, add Gaussian noise
-    if (this.rng() < this.config.mutationRate) {
-      mutated.drynessWeight += this.gaussianRandom() * this.config.mutationStdDev;
-    }
-    if (this.rng() < this.config.mutationRate) {
-      mutated.floodWeight += this.gaussianRandom() * this.config.mutationStdDev;
-    }
-    if (this.rng() < this.config.mutationRate) {
-      mutated.waterWeight += this.gaussianRandom() * this.config.mutationStdDev;
-    }
-    if (this.rng() < this.config.mutationRate) {
-      mutated.predictionHorizonTicks += Math.round(this.gaussianRandom() * 2);
-    }
-    if (this.rng() < this.config.mutationRate) {
-      mutated.fuzzyDrynessScale += this.gaussianRandom() * this.config.mutationStdDev * 0.5;
-    }
-    if (this.rng() < this.config.mutationRate) {
-      mutated.fuzzyFloodScale += this.gaussianRandom() * this.config.mutationStdDev * 0.5;
-    }
-    if (this.rng() < this.config.mutationRate) {
-      mutated.minTicksBetweenToggles += Math.round(this.gaussianRandom() * 1);
-    }
-    if (this.rng() < this.config.mutationRate) {
-      mutated.maxDutyCycle += this.gaussianRandom() * this.config.mutationStdDev * 0.3;
-    }
-
-    return this.clampParams(mutated);
+  private mutate(params: P): P {
+    return this.space.mutate(params, this.rng, () => this.gaussianRandom(), this.config);
   }
 
   /**
@@ -233,23 +294,9 @@ export class GeneticAlgorithmTrainer {
   /**
    * Crossover: blend parameters from two parents.
    */
-  private crossover(parent1: ControllerParams, parent2: ControllerParams): ControllerParams {
+  private crossover(parent1: P, parent2: P): P {
     const alpha = this.rng(); // interpolation weight
-
-    return {
-      drynessWeight: parent1.drynessWeight * alpha + parent2.drynessWeight * (1 - alpha),
-      floodWeight: parent1.floodWeight * alpha + parent2.floodWeight * (1 - alpha),
-      waterWeight: parent1.waterWeight * alpha + parent2.waterWeight * (1 - alpha),
-      predictionHorizonTicks: Math.round(
-        parent1.predictionHorizonTicks * alpha + parent2.predictionHorizonTicks * (1 - alpha)
-      ),
-      fuzzyDrynessScale: parent1.fuzzyDrynessScale * alpha + parent2.fuzzyDrynessScale * (1 - alpha),
-      fuzzyFloodScale: parent1.fuzzyFloodScale * alpha + parent2.fuzzyFloodScale * (1 - alpha),
-      minTicksBetweenToggles: Math.round(
-        parent1.minTicksBetweenToggles * alpha + parent2.minTicksBetweenToggles * (1 - alpha)
-      ),
-      maxDutyCycle: parent1.maxDutyCycle * alpha + parent2.maxDutyCycle * (1 - alpha),
-    };
+    return this.space.crossover(parent1, parent2, alpha);
   }
 
   /**
@@ -262,14 +309,14 @@ export class GeneticAlgorithmTrainer {
   public async trainAsync(
     evalConfig: EvaluationConfig,
     onProgress?: (progress: TrainingProgress) => void | Promise<void>
-  ): Promise<TrainingResults> {
+  ): Promise<TrainingResults<P>> {
     const populationSize = this.config.populationSize;
     const generations = this.config.generations;
     const elitismRate = this.config.elitismRate;
 
     // Initialize population
-    let population: Chromosome[] = Array.from({ length: populationSize }, () => ({
-      params: this.randomParams(),
+    let population: Chromosome<P>[] = Array.from({ length: populationSize }, () => ({
+      params: this.space.random(this.rng),
       fitness: -Infinity,
     }));
 
@@ -321,7 +368,7 @@ export class GeneticAlgorithmTrainer {
       const elite = population.slice(0, numElite);
 
       // Create offspring to fill rest of population
-      const offspring: Chromosome[] = [];
+      const offspring: Chromosome<P>[] = [];
       while (offspring.length < populationSize - numElite) {
         // Select two parents from elite (randomly)
         const parent1 = elite[Math.floor(this.rng() * elite.length)];
@@ -354,14 +401,14 @@ export class GeneticAlgorithmTrainer {
    * @param evalConfig - Configuration for episode runs
    * @returns TrainingResults with best chromosome and history
    */
-  public train(evalConfig: EvaluationConfig): TrainingResults {
+  public train(evalConfig: EvaluationConfig): TrainingResults<P> {
     const populationSize = this.config.populationSize;
     const generations = this.config.generations;
     const elitismRate = this.config.elitismRate;
 
     // Initialize population
-    let population: Chromosome[] = Array.from({ length: populationSize }, () => ({
-      params: this.randomParams(),
+    let population: Chromosome<P>[] = Array.from({ length: populationSize }, () => ({
+      params: this.space.random(this.rng),
       fitness: -Infinity,
     }));
 
@@ -398,7 +445,7 @@ export class GeneticAlgorithmTrainer {
       const elite = population.slice(0, numElite);
 
       // Create offspring to fill rest of population
-      const offspring: Chromosome[] = [];
+      const offspring: Chromosome<P>[] = [];
       while (offspring.length < populationSize - numElite) {
         // Select two parents from elite (randomly)
         const parent1 = elite[Math.floor(this.rng() * elite.length)];
@@ -446,7 +493,7 @@ export async function trainSmartController(
     ...customConfig,
   };
 
-  const trainer = new GeneticAlgorithmTrainer(gaConfig);
+  const trainer = GeneticAlgorithmTrainer.forSmartController(gaConfig);
 
   const results = trainer.train({
     episodesPerIndividual: 2,
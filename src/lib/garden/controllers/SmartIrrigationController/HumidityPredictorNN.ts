@@ -22,6 +22,36 @@ export interface HumidityPredictorConfig {
   b2: number;
 }
 
+/** JSON for a predictor config, e.g. to save trained weights */
+export function serializeHumidityPredictorConfig(cfg: HumidityPredictorConfig): string {
+  return JSON.stringify(cfg);
+}
+
+/**
+ * Load a predictor config saved by `serializeHumidityPredictorConfig`.
+ * Throws if the weights don't match the declared layer sizes.
+ */
+export function parseHumidityPredictorConfig(json: string): HumidityPredictorConfig {
+  const cfg = JSON.parse(json) as HumidityPredictorConfig;
+  const isVector = (v: unknown, length: number): v is number[] =>
+    Array.isArray(v) && v.length === length && v.every((n) => typeof n === "number" && Number.isFinite(n));
+
+  const { inputSize, hiddenSize } = cfg ?? {};
+  if (!Number.isInteger(inputSize) || !Number.isInteger(hiddenSize) || inputSize <= 0 || hiddenSize <= 0) {
+    throw new Error("Humidity predictor config needs positive integer `inputSize` and `hiddenSize`");
+  }
+  if (!Array.isArray(cfg.W1) || cfg.W1.length !== hiddenSize || !cfg.W1.every((row) => isVector(row, inputSize))) {
+    throw new Error(`Humidity predictor \`W1\` must be ${hiddenSize} rows of ${inputSize} numbers`);
+  }
+  if (!isVector(cfg.b1, hiddenSize) || !isVector(cfg.W2, hiddenSize)) {
+    throw new Error(`Humidity predictor \`b1\` and \`W2\` must have ${hiddenSize} numbers`);
+  }
+  if (typeof cfg.b2 !== "number" || !Number.isFinite(cfg.b2)) {
+    throw new Error("Humidity predictor `b2` must be a number");
+  }
+  return { inputSize, hiddenSize, W1: cfg.W1, b1: cfg.b1, W2: cfg.W2, b2: cfg.b2 };
+}
+
 /**
  * HumidityPredictorNN
  *
@@ -32,7 +62,9 @@ export interface HumidityPredictorConfig {
  * - Hidden layer: ReLU activation
  * - Output layer: Sigmoid activation → [0, 1] (predicted percentTooDry)
  *
- * The weights are hardcoded (trained offline via Python or a separate training loop).
+ * The default weights were trained with `trainHumidityPredictor` on samples from
+ * `collectHumidityDataset` (see HumidityPredictorTrainer.ts); weights trained for
+ * another garden or horizon load with `parseHumidityPredictorConfig`.
  * At runtime, the controller uses this NN to predict future dryness for two scenarios:
  * 1. If irrigation stays OFF
  * 2. If irrigation turns ON
@@ -135,52 +167,15 @@ export class HumidityPredictorNN implements IrrigationController {
   }
 
   /**
-   * Forward pass: predict future percentTooDry using physics-based heuristic.
-   * 
-   * This replaces the previous random NN weights with a deterministic model
-   * that doesn't require training and actually makes sense.
+   * Forward pass: features → ReLU hidden layer → sigmoid output.
    *
-   * @param metrics - Current metrics
-   * @param weather - Current weather
-   * @param state - Current simulation state
-   * @param irrigationFlag - 0 or 1 for the hypothetical scenario
+   * @param x - Feature vector from buildInputFeatures
    * @returns Predicted percentTooDry in [0, 1] at t + horizon
    */
-  private forward(
-    metrics: Simulation.Metrics,
-    weather: Weather.State,
-    state: Simulation.State,
-    irrigationFlag: 0 | 1
-  ): number {
-    // Simple physics-based prediction
-    const currentDry = metrics.percentTooDry / 100; // Convert to 0-1
-    
-    // Evaporation factor: higher temp and sun = more drying
-    const tempNorm = clamp(weather.temperature / 40, 0, 1);
-    const evaporationFactor = tempNorm * weather.sunIntensity * (1 - weather.humidity);
-    
-    // Rain reduces dryness
-    const rainFactor = weather.rainIntensity;
-    
-    // Predict future dryness
-    let futureDry = currentDry;
-    
-    if (irrigationFlag === 1) {
-      // Irrigation significantly reduces dryness
-      futureDry *= 0.4;
-    } else {
-      // Without irrigation, evaporation increases dryness
-      futureDry += evaporationFactor * 0.15;
-    }
-    
-    // Rain reduces dryness regardless of irrigation
-    futureDry -= rainFactor * 0.25;
-    
-    // Also consider current wetness - if plants are wet, less likely to be dry soon
-    const currentWet = metrics.percentTooWet / 100;
-    futureDry -= currentWet * 0.1;
-    
-    return clamp(futureDry, 0, 1);
+  predict(x: number[]): number {
+    const hidden = this.dense(this.cfg.W1, this.cfg.b1, x, (z) => this.relu(z));
+    const [out] = this.dense([this.cfg.W2], [this.cfg.b2], hidden, (z) => this.sigmoid(z));
+    return out;
   }
 
   /**
@@ -198,7 +193,7 @@ export class HumidityPredictorNN implements IrrigationController {
     state: Simulation.State,
     irrigationFlag: 0 | 1
   ): number {
-    return this.forward(metrics, weather, state, irrigationFlag);
+    return this.predict(this.buildInputFeatures(metrics, weather, state, irrigationFlag));
   }
 
   /**
@@ -213,18 +208,39 @@ export class HumidityPredictorNN implements IrrigationController {
 /**
  * Default configuration for HumidityPredictorNN.
  *
- * NOTE: The NN now uses a physics-based heuristic in the forward() method,
- * so these weights are not actually used. They're kept for API compatibility.
- * 
- * Previously used random weights which caused completely unpredictable behavior.
- * The new approach is deterministic and doesn't require training.
+ * Trained with Adam on 30 episodes of random exploration (20–30 × 20
+ * gardens, sine weather, 10-tick horizon); validation MSE ≈ 0.006 against
+ * 0.033 for always predicting the mean. Retrain for gardens or horizons
+ * that differ much from these.
  */
 export const DEFAULT_HUMIDITY_PREDICTOR_CONFIG: HumidityPredictorConfig = {
   inputSize: 9,
   hiddenSize: 16,
-  // Dummy weights (not used by the physics-based forward method)
-  W1: Array.from({ length: 16 }, () => Array.from({ length: 9 }, () => 0)),
-  b1: Array.from({ length: 16 }, () => 0),
-  W2: Array.from({ length: 16 }, () => 0),
-  b2: 0.0,
+  W1: [
+    [0.5603, 0.4151, -0.2214, -0.2873, 0.4238, 0.1020, -0.2673, 0.0880, 0.3440],
+    [-0.1070, -0.0382, -0.2085, 0.1202, -0.0656, -0.9168, 0.1659, -0.8558, 0.6404],
+    [0.1812, 0.0135, 0.1283, 0.5138, 0.5339, -0.7957, 0.5722, 0.5740, -1.5697],
+    [-0.2106, 1.1691, 0.3091, 1.0726, 0.3539, -1.2075, -0.9380, -0.0948, -0.0735],
+    [0.5925, 0.6324, -0.0370, -0.7876, -0.8685, -0.2127, 0.2964, 0.0885, 0.1576],
+    [0.1938, -0.5620, 0.1803, 0.1704, -0.3459, 0.4633, -0.9772, 0.3334, 0.5903],
+    [0.7690, 0.0879, -0.1186, 0.1850, 0.7322, -0.6167, 0.1670, 0.3342, -0.0627],
+    [-0.2286, -0.4519, 0.6037, -2.1425, -0.5683, 0.7094, 0.1367, 0.6359, -0.1058],
+    [-0.0944, -0.0019, -0.1941, 0.4254, -0.1653, -4.6694, -0.1002, 1.2280, 0.3574],
+    [-0.3015, 0.1962, 0.3044, -0.6918, -0.4433, -0.1327, -0.8189, 0.6617, 0.3385],
+    [0.0841, 0.0107, -0.6669, 1.6354, 0.2458, -0.2471, -1.4336, -0.3333, 1.0009],
+    [1.1771, 0.7379, -0.7873, -0.1217, 0.3365, -0.5430, -0.8493, 0.0950, 0.2952],
+    [-0.3969, 0.4672, -0.1284, -0.2720, -0.0190, -3.7690, 1.4367, 1.4092, -1.6635],
+    [-0.1097, 0.5352, 0.5769, -0.1486, 0.0661, 1.0916, -1.3521, -1.6308, -2.1283],
+    [0.0140, 0.1062, 0.1578, 1.7155, 0.4993, -1.5954, -0.3087, 0.3415, 0.2949],
+    [0.6980, -0.5357, 0.2096, -0.2983, 0.1773, 0.3121, -0.0325, 0.1501, 0.1051],
+  ],
+  b1: [
+    -0.1310, -0.1679, 0.1545, 0.0469, -0.1195, 0.0156, 0.0202, -0.0823,
+    -0.0755, 0.1749, 0.2106, -0.0445, -0.2045, 0.3149, -0.0856, 0.0183,
+  ],
+  W2: [
+    0.1316, 0.1607, -0.7768, -0.3718, -0.0461, -0.5802, -0.1043, -0.2371,
+    -3.6369, -1.0742, -1.2571, -0.0718, -0.4768, 1.3530, -0.1735, 0.0933,
+  ],
+  b2: -0.0843,
 };
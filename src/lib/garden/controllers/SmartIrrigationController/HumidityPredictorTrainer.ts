@@ -0,0 +1,345 @@
+import { GardenSimulation, GardenSimulationOptions } from "../../GardenSimulation";
+import { Garden, IrrigationController, Simulation } from "../../types";
+import { computeMoistureMetrics } from "../../metrics";
+import { mulberry32 } from "../../../utils";
+import { DEFAULT_CONTROLLER_PARAMS } from "./types";
+import {
+  DEFAULT_HUMIDITY_PREDICTOR_CONFIG,
+  HumidityPredictorConfig,
+  HumidityPredictorNN,
+} from "./HumidityPredictorNN";
+
+/**
+ * One training example: the features the predictor sees at some tick, and
+ * the fraction of plants that were actually too dry `horizonTicks` later.
+ */
+export interface HumiditySample {
+  features: number[];
+  target: number;
+}
+
+/**
+ * Configuration for collecting training samples from simulation runs.
+ */
+export interface HumidityDatasetOptions {
+  /** Number of episodes to run */
+  episodes: number;
+  /** Options for garden generation; can be a factory or fixed */
+  gardenOptions: GardenSimulationOptions | (() => GardenSimulationOptions);
+  /** Ticks between the features and the target (defaults to the controller's default prediction horizon) */
+  horizonTicks?: number;
+  /** Chance irrigation is on in each stretch of the exploration policy (defaults to 0.4) */
+  openChance?: number;
+  /** Seeds the exploration policy */
+  seed?: number;
+}
+
+/**
+ * Configuration for fitting the predictor to samples.
+ */
+export interface HumidityTrainingOptions {
+  /** Number of hidden neurons */
+  hiddenSize: number;
+  /** Passes over the training samples */
+  epochs: number;
+  /** Samples per gradient step */
+  batchSize: number;
+  learningRate: number;
+  optimizer: "sgd" | "adam";
+  /** Fraction of the samples held out for validation, taken from the end */
+  validationSplit: number;
+  /** Seeds the initial weights and the shuffling */
+  seed: number;
+}
+
+export const DEFAULT_HUMIDITY_TRAINING_OPTIONS: HumidityTrainingOptions = {
+  hiddenSize: 16,
+  epochs: 40,
+  batchSize: 32,
+  learningRate: 0.003,
+  optimizer: "adam",
+  validationSplit: 0.2,
+  seed: 1,
+};
+
+/**
+ * Loss after one epoch (mean squared error of the predicted fraction).
+ */
+export interface HumidityEpochStats {
+  epoch: number;
+  trainLoss: number;
+  validationLoss: number;
+}
+
+/**
+ * Results from fitting the predictor.
+ */
+export interface HumidityTrainingResults {
+  /** Weights from the epoch with the lowest validation loss */
+  config: HumidityPredictorConfig;
+  /** Validation loss of those weights (NaN without validation samples) */
+  validationLoss: number;
+  history: HumidityEpochStats[];
+}
+
+/** Adam's moment decay rates */
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+
+/**
+ * Behaviour policy while collecting: irrigation on or off at random,
+ * held for random stretches of up to twice the horizon, so the data has
+ * both actions held long enough to see their effect. Records what the
+ * predictor would have seen each tick; the simulation reports the true
+ * dryness through `recordTruth`.
+ */
+class ExplorationController implements IrrigationController {
+  private nn = new HumidityPredictorNN(DEFAULT_HUMIDITY_PREDICTOR_CONFIG);
+  private on = false;
+  private switchTick = 0;
+  /** Features and action per tick */
+  steps: { features: number[]; on: boolean }[] = [];
+  /** True fraction of plants too dry at the start of each tick */
+  dryness: number[] = [];
+
+  constructor(
+    private rand: () => number,
+    private horizonTicks: number,
+    private openChance: number
+  ) {}
+
+  /** Hooked up as the simulation's `observeTrueGarden` */
+  recordTruth(garden: Garden): void {
+    this.dryness.push(computeMoistureMetrics(garden).percentTooDry / 100);
+  }
+
+  decide(metrics: Simulation.Metrics, state: Simulation.State): boolean {
+    if (state.tick >= this.switchTick) {
+      this.on = this.rand() < this.openChance;
+      this.switchTick = state.tick + 1 + Math.floor(this.rand() * 2 * this.horizonTicks);
+    }
+    this.steps.push({
+      features: this.nn.buildInputFeatures(metrics, state.weather, state, this.on ? 1 : 0),
+      on: this.on,
+    });
+    return this.on;
+  }
+
+  /** Ticks whose action was held for the whole horizon, with their realised target */
+  samples(): HumiditySample[] {
+    const samples: HumiditySample[] = [];
+    for (let t = 0; t + this.horizonTicks < this.dryness.length; t++) {
+      const { features, on } = this.steps[t];
+      let held = true;
+      for (let k = 1; k < this.horizonTicks && held; k++) {
+        held = this.steps[t + k].on === on;
+      }
+      if (held) samples.push({ features, target: this.dryness[t + this.horizonTicks] });
+    }
+    return samples;
+  }
+}
+
+/**
+ * Run episodes under a random exploration policy and record, for every
+ * tick whose action then stayed the same for `horizonTicks`, the
+ * `buildInputFeatures` vector and the true `percentTooDry` (as a
+ * fraction) `horizonTicks` later. Samples come out in episode order.
+ */
+export function collectHumidityDataset(options: HumidityDatasetOptions): HumiditySample[] {
+  const {
+    episodes,
+    gardenOptions,
+    horizonTicks = DEFAULT_CONTROLLER_PARAMS.predictionHorizonTicks,
+    openChance = 0.4,
+    seed = 0,
+  } = options;
+  const rand = mulberry32(seed);
+  const samples: HumiditySample[] = [];
+
+  for (let i = 0; i < episodes; i++) {
+    const gardenOpts = typeof gardenOptions === "function" ? gardenOptions() : gardenOptions;
+    const controller = new ExplorationController(rand, Math.max(1, Math.round(horizonTicks)), openChance);
+    const sim = new GardenSimulation({
+      ...gardenOpts,
+      controller,
+      observeTrueGarden: (garden) => controller.recordTruth(garden),
+    });
+
+    while (sim.state.tick < sim.state.episodeLength) {
+      sim.step();
+    }
+    samples.push(...controller.samples());
+  }
+
+  return samples;
+}
+
+/**
+ * Weights as one flat vector: W1 row by row, then b1, W2 and b2.
+ */
+function flatten(cfg: HumidityPredictorConfig): number[] {
+  return [...cfg.W1.flat(), ...cfg.b1, ...cfg.W2, cfg.b2];
+}
+
+function unflatten(theta: number[], inputSize: number, hiddenSize: number): HumidityPredictorConfig {
+  const offset = hiddenSize * inputSize;
+  return {
+    inputSize,
+    hiddenSize,
+    W1: Array.from({ length: hiddenSize }, (_, i) => theta.slice(i * inputSize, (i + 1) * inputSize)),
+    b1: theta.slice(offset, offset + hiddenSize),
+    W2: theta.slice(offset + hiddenSize, offset + 2 * hiddenSize),
+    b2: theta[offset + 2 * hiddenSize],
+  };
+}
+
+/**
+ * Mean squared error over `samples`; with `grad`, also adds the gradient
+ * of that loss with respect to the flat weights into it.
+ */
+function lossAndGradient(
+  theta: number[],
+  samples: HumiditySample[],
+  inputSize: number,
+  hiddenSize: number,
+  grad?: number[]
+): number {
+  const b1Offset = hiddenSize * inputSize;
+  const w2Offset = b1Offset + hiddenSize;
+  const b2Offset = w2Offset + hiddenSize;
+  const hidden = new Array<number>(hiddenSize);
+  let loss = 0;
+
+  for (const { features, target } of samples) {
+    // Forward: same as HumidityPredictorNN.predict
+    let z2 = theta[b2Offset];
+    for (let i = 0; i < hiddenSize; i++) {
+      let z = theta[b1Offset + i];
+      for (let j = 0; j < inputSize; j++) {
+        z += theta[i * inputSize + j] * features[j];
+      }
+      hidden[i] = z > 0 ? z : 0;
+      z2 += theta[w2Offset + i] * hidden[i];
+    }
+    const y = 1 / (1 + Math.exp(-Math.min(500, Math.max(-500, z2))));
+    const error = y - target;
+    loss += error * error;
+    if (!grad) continue;
+
+    // Backward: d(error²)/dz2 through the sigmoid, then through the ReLU
+    const dz2 = (2 * error * y * (1 - y)) / samples.length;
+    grad[b2Offset] += dz2;
+    for (let i = 0; i < hiddenSize; i++) {
+      grad[w2Offset + i] += dz2 * hidden[i];
+      if (hidden[i] <= 0) continue;
+      const dz = dz2 * theta[w2Offset + i];
+      grad[b1Offset + i] += dz;
+      for (let j = 0; j < inputSize; j++) {
+        grad[i * inputSize + j] += dz * features[j];
+      }
+    }
+  }
+
+  return samples.length ? loss / samples.length : NaN;
+}
+
+/**
+ * Fit a HumidityPredictorNN to collected samples by backpropagation with
+ * mini-batch SGD or Adam.
+ *
+ * The last `validationSplit` of the samples is held out rather than a
+ * random pick: samples from neighbouring ticks are nearly identical, so
+ * only whole unseen episodes say how well the network generalizes. The
+ * weights of the epoch with the lowest validation loss are returned.
+ *
+ * @param samples - Samples from `collectHumidityDataset`
+ * @param options - Overrides for DEFAULT_HUMIDITY_TRAINING_OPTIONS
+ * @param onEpoch - Optional callback after each epoch
+ * @returns Trained config and loss history
+ */
+export function trainHumidityPredictor(
+  samples: HumiditySample[],
+  options: Partial<HumidityTrainingOptions> = {},
+  onEpoch?: (stats: HumidityEpochStats) => void
+): HumidityTrainingResults {
+  const opts = { ...DEFAULT_HUMIDITY_TRAINING_OPTIONS, ...options };
+  if (!samples.length) {
+    throw new Error("Need at least one sample to train the humidity predictor");
+  }
+  const inputSize = samples[0].features.length;
+  const hiddenSize = Math.max(1, Math.round(opts.hiddenSize));
+  const batchSize = Math.max(1, Math.round(opts.batchSize));
+
+  const splitAt = Math.round(samples.length * (1 - Math.min(Math.max(opts.validationSplit, 0), 1)));
+  const train = samples.slice(0, Math.max(1, splitAt));
+  const validation = samples.slice(Math.max(1, splitAt));
+
+  // He initialization for the ReLU layer, small output weights, zero biases
+  const rand = mulberry32(opts.seed);
+  const gauss = () => Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+  const theta = flatten({
+    inputSize,
+    hiddenSize,
+    W1: Array.from({ length: hiddenSize }, () =>
+      Array.from({ length: inputSize }, () => gauss() * Math.sqrt(2 / inputSize))
+    ),
+    b1: new Array(hiddenSize).fill(0),
+    W2: Array.from({ length: hiddenSize }, () => gauss() * Math.sqrt(1 / hiddenSize)),
+    b2: 0,
+  });
+
+  const m = new Array<number>(theta.length).fill(0);
+  const v = new Array<number>(theta.length).fill(0);
+  let step = 0;
+  const history: HumidityEpochStats[] = [];
+  let best = { theta: [...theta], validationLoss: Infinity };
+  const order = train.map((_, i) => i);
+
+  for (let epoch = 0; epoch < opts.epochs; epoch++) {
+    // Fisher-Yates shuffle of the training order
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    for (let start = 0; start < order.length; start += batchSize) {
+      const batch = order.slice(start, start + batchSize).map((i) => train[i]);
+      const grad = new Array<number>(theta.length).fill(0);
+      lossAndGradient(theta, batch, inputSize, hiddenSize, grad);
+      step++;
+
+      for (let p = 0; p < theta.length; p++) {
+        if (opts.optimizer === "sgd") {
+          theta[p] -= opts.learningRate * grad[p];
+          continue;
+        }
+        m[p] = ADAM_BETA1 * m[p] + (1 - ADAM_BETA1) * grad[p];
+        v[p] = ADAM_BETA2 * v[p] + (1 - ADAM_BETA2) * grad[p] * grad[p];
+        const mHat = m[p] / (1 - ADAM_BETA1 ** step);
+        const vHat = v[p] / (1 - ADAM_BETA2 ** step);
+        theta[p] -= (opts.learningRate * mHat) / (Math.sqrt(vHat) + ADAM_EPSILON);
+      }
+    }
+
+    const stats = {
+      epoch,
+      trainLoss: lossAndGradient(theta, train, inputSize, hiddenSize),
+      validationLoss: lossAndGradient(theta, validation, inputSize, hiddenSize),
+    };
+    history.push(stats);
+    onEpoch?.(stats);
+
+    // Without validation samples the latest weights are kept
+    if (!validation.length || stats.validationLoss < best.validationLoss) {
+      best = { theta: [...theta], validationLoss: stats.validationLoss };
+    }
+  }
+
+  return {
+    config: unflatten(best.theta, inputSize, hiddenSize),
+    validationLoss: validation.length ? best.validationLoss : NaN,
+    history,
+  };
+}
@@ -110,7 +110,7 @@ export async function example3_multiScenarioTraining() {
     } as GardenSimulationOptions;
   };
 
-  const trainer = new GeneticAlgorithmTrainer({
+  const trainer = GeneticAlgorithmTrainer.forSmartController({
     populationSize: 25,
     generations: 15,
     elitismRate: 0.3,
@@ -146,7 +146,7 @@ export async function example3_multiScenarioTraining() {
 export async function example4_advancedDirectUsage() {
   console.log("🎯 Example 4: Advanced Direct Usage");
 
-  const trainer = new GeneticAlgorithmTrainer({
+  const trainer = GeneticAlgorithmTrainer.forSmartController({
     populationSize: 20,
     generations: 12,
     elitismRate: 0.25,
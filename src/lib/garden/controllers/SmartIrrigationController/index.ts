@@ -2,4 +2,5 @@ export * from './FuzzyClimateEvaluator'
 export * from './HumidityPredictorNN'
 export * from './SmartIrrigationController'
 export * from './types'
-export * from './GeneticAlgorithmTrainer'
\ No newline at end of file
+export * from './GeneticAlgorithmTrainer'
+export * from './HumidityPredictorTrainer'
\ No newline at end of file
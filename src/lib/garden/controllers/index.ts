@@ -2,4 +2,7 @@ export * from './DumbIrrigationController'
 export * from './ManualIrrigationController'
 export * from './AlwaysOnIrrigationController'
 export * from './AlwaysOffIrrigationController'
-export * from './SmartIrrigationController'
\ No newline at end of file
+export * from './ModelPredictiveController'
+export * from './PIDIrrigationController'
+export * from './SmartIrrigationController'
+export * from './RLIrrigationController'
\ No newline at end of file
@@ -3,6 +3,8 @@ import {
     DumbIrrigationController,
     ManualIrrigationController,
     AlwaysOnIrrigationController,
+    ModelPredictiveController,
+    PIDIrrigationController,
 } from "./";
 
 export const CONTROLLERS = {
@@ -10,6 +12,8 @@ export const CONTROLLERS = {
     manual: ManualIrrigationController,
     alwaysOn: AlwaysOnIrrigationController,
     alwaysOff: AlwaysOffIrrigationController,
+    mpc: ModelPredictiveController,
+    pid: PIDIrrigationController,
 } as const;
 
-export type ControllerKey = keyof typeof CONTROLLERS | 'smart';
\ No newline at end of file
+export type ControllerKey = keyof typeof CONTROLLERS | 'smart' | 'rl';
\ No newline at end of file
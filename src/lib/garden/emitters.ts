@@ -0,0 +1,133 @@
+// lib/garden/emitters.ts
+import { Garden, Weather } from "./types";
+
+/** Emitter catalog with per-type footprint and water efficiency */
+export const EMITTER_TYPES: Record<Garden.EmitterTypeId, Garden.EmitterType> = {
+    drip: {
+        id: "drip",
+        name: "Drip line",
+        pattern: "point",
+        rateMultiplier: 2,
+        efficiency: 0.95,
+        sprayLoss: 0,
+        color: "#0369a1",
+    },
+    soaker: {
+        id: "soaker",
+        name: "Soaker hose",
+        pattern: "line",
+        rateMultiplier: 0.5,
+        efficiency: 0.9,
+        sprayLoss: 0,
+        color: "#7c3aed",
+    },
+    sprinkler: {
+        id: "sprinkler",
+        name: "Sprinkler",
+        pattern: "circle",
+        rateMultiplier: 1,
+        efficiency: 0.75,
+        sprayLoss: 0.4,
+        color: "#0891b2",
+    },
+};
+
+/**
+ * Fallback for hoses without an emitter type: the diamond footprint at the
+ * full irrigation rate with no losses, which is how every hose watered
+ * before emitter types existed.
+ */
+export const DEFAULT_EMITTER: Garden.EmitterType = {
+    id: "soaker",
+    name: "Plain hose",
+    pattern: "diamond",
+    rateMultiplier: 1,
+    efficiency: 1,
+    sprayLoss: 0,
+    color: "#0ea5e9",
+};
+
+/** Emitter type of a hose (the plain hose fallback if none was assigned) */
+export function getEmitterType(hose: Garden.HosePath): Garden.EmitterType {
+    return hose.emitter ? EMITTER_TYPES[hose.emitter] : DEFAULT_EMITTER;
+}
+
+/**
+ * Tiles watered by one hose tile and the relative amount each receives
+ * (1 = the emitter's full rate). Only soil tiles are returned.
+ */
+export function emitterFootprint(
+    emitter: Garden.EmitterType,
+    p: Garden.Position,
+    garden: Garden,
+    coverageRadius: number
+): { x: number; y: number; weight: number }[] {
+    const { width, height, tiles } = garden;
+    const radius =
+        emitter.pattern === "line" ? 1 :
+        emitter.pattern === "circle" ? coverageRadius + 1 :
+        coverageRadius;
+
+    const footprint: { x: number; y: number; weight: number }[] = [];
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            const nx = p.x + dx;
+            const ny = p.y + dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            const tile = tiles[ny][nx];
+            if (tile.type !== "soil") continue;
+
+            if (emitter.pattern === "circle") {
+                const d = Math.hypot(dx, dy);
+                if (d > radius) continue;
+                footprint.push({ x: nx, y: ny, weight: 1 - d / (radius + 1) });
+            } else {
+                if (Math.abs(dx) + Math.abs(dy) > radius) continue;
+                if (emitter.pattern === "point" && !tile.hasPlant) continue;
+                footprint.push({ x: nx, y: ny, weight: 1 });
+            }
+        }
+    }
+    return footprint;
+}
+
+/** Fraction of an emitter's output lost to evaporation before landing, given the weather */
+export function sprayLossFraction(emitter: Garden.EmitterType, weather: Weather.State): number {
+    if (emitter.sprayLoss <= 0) return 0;
+    const heat = Math.max(0, Math.min(1, (weather.temperature - 15) / 15));
+    return emitter.sprayLoss * weather.sunIntensity * heat;
+}
+
+/**
+ * How the hose planner assigns emitters:
+ * - "none": leave hoses as plain hoses
+ * - "auto": pick per hose with `pickEmitterType`
+ * - an emitter id: use that emitter for every hose
+ */
+export type EmitterStrategy = "none" | "auto" | Garden.EmitterTypeId;
+
+/**
+ * Pick an emitter for a hose from the plants it reaches: drip for hoses
+ * serving one or two plants, a sprinkler where plants are packed densely
+ * along the hose, and a soaker hose otherwise.
+ */
+export function pickEmitterType(
+    hose: Garden.HosePath,
+    garden: Garden,
+    coverageRadius: number
+): Garden.EmitterTypeId {
+    const reached = new Set<string>();
+    for (const p of hose.tiles) {
+        for (let dy = -coverageRadius; dy <= coverageRadius; dy++) {
+            for (let dx = -coverageRadius; dx <= coverageRadius; dx++) {
+                if (Math.abs(dx) + Math.abs(dy) > coverageRadius) continue;
+                const tile = garden.tiles[p.y + dy]?.[p.x + dx];
+                if (tile?.hasPlant) reached.add(`${tile.x},${tile.y}`);
+            }
+        }
+    }
+
+    if (reached.size <= 2) return "drip";
+    if (reached.size / Math.max(1, hose.tiles.length) >= 1.5) return "sprinkler";
+    return "soaker";
+}
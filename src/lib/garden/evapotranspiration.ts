@@ -0,0 +1,84 @@
+// lib/garden/evapotranspiration.ts
+import { TICKS_PER_DAY } from "./consts";
+import { Simulation, Weather } from "./types";
+
+/** Length of one tick in hours */
+const TICK_HOURS = 24 / TICKS_PER_DAY;
+
+/** Albedo of the FAO-56 grass reference surface */
+const REFERENCE_ALBEDO = 0.23;
+
+/** Psychrometric constant near sea level, kPa/°C */
+const PSYCHROMETRIC_CONSTANT = 0.0665;
+
+/** Stefan-Boltzmann constant per hour, MJ/m²/K⁴/h */
+const STEFAN_BOLTZMANN_HOURLY = 2.043e-10;
+
+/** Saturation vapour pressure at a temperature (°C), kPa */
+function saturationVapourPressure(temperature: number): number {
+    return 0.6108 * Math.exp((17.27 * temperature) / (temperature + 237.3));
+}
+
+/** Incoming solar radiation over one tick, MJ/m² */
+function solarRadiation(weather: Weather.State, exposure: number, config: Simulation.Config): number {
+    const watts = weather.sunIntensity * exposure * config.fullSunRadiation;
+    return (watts * TICK_HOURS * 3600) / 1e6;
+}
+
+/**
+ * Hargreaves' radiation-based reference evapotranspiration,
+ * ET₀ = 0.0135 (T + 17.8) Rs, with Rs in mm of evaporation equivalent.
+ * Needs only temperature and radiation, so it ignores humidity and wind.
+ */
+export function hargreavesET0(weather: Weather.State, exposure: number, config: Simulation.Config): number {
+    const rs = solarRadiation(weather, exposure, config) * 0.408;
+    return Math.max(0, 0.0135 * (weather.temperature + 17.8) * rs);
+}
+
+/**
+ * FAO-56 Penman-Monteith reference evapotranspiration in its hourly form,
+ * scaled to one tick. Wind speed is taken as measured at 2 m. Net longwave
+ * loss assumes partly cloudy skies; soil heat flux is 10% of net radiation
+ * by day and 50% at night.
+ */
+export function penmanMonteithET0(weather: Weather.State, exposure: number, config: Simulation.Config): number {
+    const t = weather.temperature;
+    const es = saturationVapourPressure(t);
+    const ea = es * Math.max(0, Math.min(1, weather.humidity));
+    const slope = (4098 * es) / Math.pow(t + 237.3, 2);
+    const u2 = Math.max(0, weather.windSpeed);
+    const isDay = weather.sunIntensity > 0;
+
+    // Radiation per hour, MJ/m²/h
+    const rs = solarRadiation(weather, exposure, config) / TICK_HOURS;
+    const longwave =
+        STEFAN_BOLTZMANN_HOURLY * Math.pow(t + 273.16, 4) * (0.34 - 0.14 * Math.sqrt(ea)) * 0.7;
+    const rn = (1 - REFERENCE_ALBEDO) * rs - longwave;
+    const g = (isDay ? 0.1 : 0.5) * rn;
+
+    const cd = isDay ? 0.24 : 0.96;
+    const numerator =
+        0.408 * slope * (rn - g) + PSYCHROMETRIC_CONSTANT * (37 / (t + 273)) * u2 * (es - ea);
+    const denominator = slope + PSYCHROMETRIC_CONSTANT * (1 + cd * u2);
+
+    return Math.max(0, (numerator / denominator) * TICK_HOURS);
+}
+
+/**
+ * Reference evapotranspiration for one tick, in mm, under the configured
+ * model. The "linear" model has no reference ET and returns 0.
+ */
+export function referenceEvapotranspiration(
+    weather: Weather.State,
+    exposure: number,
+    config: Simulation.Config
+): number {
+    switch (config.evapotranspirationModel) {
+        case "hargreaves":
+            return hargreavesET0(weather, exposure, config);
+        case "penman_monteith":
+            return penmanMonteithET0(weather, exposure, config);
+        case "linear":
+            return 0;
+    }
+}
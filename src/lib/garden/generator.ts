@@ -1,6 +1,8 @@
-import { mulberry32, fisherYatesShuffle } from "../utils";
+import { mulberry32, fisherYatesShuffle, pickWeighted } from "../utils";
 import { GARDEN_PATH_BRANCH_COUNT } from "./consts";
 import { Garden } from "./types";
+import { DEFAULT_SPECIES_MIX } from "./plants";
+import { DEFAULT_SOIL_MIX } from "./soils";
 
 export interface GenerateGardenParams {
     width: number;
@@ -8,6 +10,11 @@ export interface GenerateGardenParams {
     pillarDensity: number;       // 0–1
     plantChanceNearPath: number; // 0–1
     seed: number;
+    speciesMix: Partial<Record<Garden.PlantSpeciesId, number>>; // relative weights per species
+    soilMix: Partial<Record<Garden.SoilTypeId, number>>;        // relative weights per soil type
+    soilRegionCount: number;     // number of soil regions (0 = one per ~80 tiles)
+    terrainSlope: number;        // 0–1, strength of the overall tilt of the garden
+    terrainRoughness: number;    // 0–1, strength of the bumps and hollows on top of the tilt
 }
 
 const DEFAULT_OPTIONS: Required<GenerateGardenParams> = {
@@ -16,6 +23,11 @@ const DEFAULT_OPTIONS: Required<GenerateGardenParams> = {
     pillarDensity: 0.04,
     plantChanceNearPath: 0.25,
     seed: 42,
+    speciesMix: DEFAULT_SPECIES_MIX,
+    soilMix: DEFAULT_SOIL_MIX,
+    soilRegionCount: 0,
+    terrainSlope: 0.5,
+    terrainRoughness: 0.5,
 };
 
 export function generateGarden(
@@ -23,6 +35,10 @@ export function generateGarden(
 ): Garden {
     const opts = { ...DEFAULT_OPTIONS, ...(options ?? {}) };
     const rand = mulberry32(opts.seed);
+    // Separate stream for species so picking them doesn't reshuffle the layout of a given seed
+    const speciesRand = mulberry32(opts.seed + 7919);
+    const soilRand = mulberry32(opts.seed + 104729);
+    const terrainRand = mulberry32(opts.seed + 15485863);
 
     const { width, height } = opts;
     const midX = Math.floor(width / 2);
@@ -229,8 +245,9 @@ export function generateGarden(
      * This process creates plant placements focused on garden beds adjacent to paths.
      * First, it identifies all soil tiles that neighbor paths or water sources.
      * Then, it creates clustered plant groups centered around random candidate tiles,
-     * with density decreasing from cluster centers. Finally, a small number of
-     * isolated plants are scattered throughout for natural variation.
+     * with density decreasing from cluster centers. Each cluster is a bed of a single
+     * species drawn from `speciesMix`. Finally, a small number of isolated plants of
+     * random species are scattered throughout for natural variation.
      */
     // Find soil tiles that are adjacent (4-directional) to paths or water sources
     const neighbors4 = [
@@ -283,6 +300,7 @@ export function generateGarden(
     for (let i = 0; i < clusterCount && plantCandidates.length > 0; i++) {
         const center = pickRandomTile(plantCandidates);
         const radius = 2 + Math.floor(rand() * 2); // 2–3 tiles radius
+        const bedSpecies = pickWeighted(opts.speciesMix, speciesRand, "herb");
 
         // Place plants in a circular pattern around the cluster center
         for (let dy = -radius; dy <= radius; dy++) {
@@ -303,8 +321,9 @@ export function generateGarden(
                 const factor = 1 - dist / radius;
                 const clusterProb = minProb + (maxProb - minProb) * factor;
 
-                if (rand() < clusterProb) {
+                if (rand() < clusterProb && !t.hasPlant) {
                     t.hasPlant = true;
+                    t.species = bedSpecies;
                 }
             }
         }
@@ -318,6 +337,7 @@ export function generateGarden(
         const tile = plantCandidates[i];
         if (!tile.hasPlant && rand() < opts.plantChanceNearPath * 0.2) {
             tile.hasPlant = true;
+            tile.species = pickWeighted(opts.speciesMix, speciesRand, "herb");
         }
     }
 
@@ -392,11 +412,101 @@ export function generateGarden(
         corners[i].type = "water_source";
     }
 
+    /**
+     * Step 8: Partition soil into regions of different soil types
+     *
+     * Scatters region centers across the garden and gives each a soil type
+     * drawn from `soilMix`. Every soil tile takes the type of its nearest
+     * center (a Voronoi partition), which produces contiguous patches of
+     * sand, loam, clay and mulch.
+     */
+    const regionCount = opts.soilRegionCount > 0
+        ? opts.soilRegionCount
+        : Math.max(2, Math.round((width * height) / 80));
+
+    const regions = Array.from({ length: regionCount }, () => ({
+        x: Math.floor(soilRand() * width),
+        y: Math.floor(soilRand() * height),
+        soil: pickWeighted(opts.soilMix, soilRand, "loam"),
+    }));
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const tile = tiles[y][x];
+            if (tile.type !== "soil") continue;
+
+            let nearest = regions[0];
+            let bestDist = Infinity;
+            for (const region of regions) {
+                const d = (region.x - x) ** 2 + (region.y - y) ** 2;
+                if (d < bestDist) {
+                    bestDist = d;
+                    nearest = region;
+                }
+            }
+            tile.soil = nearest.soil;
+        }
+    }
+
+    /**
+     * Step 9: Shape the terrain
+     *
+     * Elevation is a tilted plane in a random downhill direction plus smooth
+     * value noise (random heights on a coarse lattice, bilinearly interpolated),
+     * normalized to 0–1. The tilt makes water run toward one side of the garden;
+     * the noise adds hollows where it pools.
+     */
+    const slopeAngle = terrainRand() * Math.PI * 2;
+    const cell = 6; // lattice spacing in tiles
+    const latticeW = Math.ceil(width / cell) + 2;
+    const latticeH = Math.ceil(height / cell) + 2;
+    const lattice = Array.from({ length: latticeH }, () =>
+        Array.from({ length: latticeW }, () => terrainRand())
+    );
+
+    const rawElevation: number[][] = [];
+    let minElevation = Infinity;
+    let maxElevation = -Infinity;
+    for (let y = 0; y < height; y++) {
+        const row: number[] = [];
+        for (let x = 0; x < width; x++) {
+            const tilt =
+                ((x / Math.max(1, width - 1)) * Math.cos(slopeAngle) +
+                    (y / Math.max(1, height - 1)) * Math.sin(slopeAngle));
+
+            const gx = x / cell;
+            const gy = y / cell;
+            const x0 = Math.floor(gx);
+            const y0 = Math.floor(gy);
+            const fx = gx - x0;
+            const fy = gy - y0;
+            const top = lattice[y0][x0] * (1 - fx) + lattice[y0][x0 + 1] * fx;
+            const bottom = lattice[y0 + 1][x0] * (1 - fx) + lattice[y0 + 1][x0 + 1] * fx;
+            const noise = top * (1 - fy) + bottom * fy;
+
+            const e = opts.terrainSlope * tilt + opts.terrainRoughness * noise;
+            row.push(e);
+            minElevation = Math.min(minElevation, e);
+            maxElevation = Math.max(maxElevation, e);
+        }
+        rawElevation.push(row);
+    }
+
+    const elevationRange = maxElevation - minElevation;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            tiles[y][x].elevation = elevationRange > 0
+                ? (rawElevation[y][x] - minElevation) / elevationRange
+                : 0;
+        }
+    }
+
     return {
         width,
         height,
         tiles,
         hoses: [],
+        zones: [],
         seed: opts.seed,
     };
 }
@@ -3,6 +3,7 @@ import { Garden as G } from "./types";
 import type { Garden as GardenModel } from "./types";
 import { GardenGrid } from "./grid";
 import { aStar, Point } from "./pathfinding/aStar";
+import { EmitterStrategy, pickEmitterType } from "./emitters";
 
 export interface HosePlannerOptions {
   /**
@@ -11,6 +12,8 @@ export interface HosePlannerOptions {
    * radius = 1 means hose in a direct neighbor tile is enough.
    */
   coverageRadius?: number;
+  /** Emitter type for each hose (defaults to plain hoses) */
+  emitters?: EmitterStrategy;
 }
 
 /**
@@ -41,7 +44,7 @@ export function planHoses(
   const plants = grid.findPlantTiles();
 
   if (!sources.length || !plants.length) {
-    return { ...baseGarden, hoses: [] };
+    return { ...baseGarden, hoses: [], zones: [] };
   }
 
   const hoses: G.HosePath[] = [];
@@ -52,6 +55,10 @@ export function planHoses(
   // --- Network state (current hose tree) ---
   const networkSet = new Set<string>();
   const networkList: G.Position[] = [];
+  // Which hose first claimed each network tile (undefined for water sources)
+  const networkOwner = new Map<string, string | undefined>();
+  // Water source at the root of each network tile's tree
+  const networkRoot = new Map<string, G.Position>();
 
   // Initialize network with all water sources
   for (const src of sources) {
@@ -59,6 +66,8 @@ export function planHoses(
     if (!networkSet.has(k)) {
       networkSet.add(k);
       networkList.push({ x: src.x, y: src.y });
+      networkOwner.set(k, undefined);
+      networkRoot.set(k, { x: src.x, y: src.y });
     }
   }
 
@@ -167,11 +176,16 @@ export function planHoses(
 
     // Create a new hose segment for this plant connection
     const hoseId = `hose-${idCounter++}`;
+    // The path ends on the network tile it connects to; that tile tells us the parent hose and root source
+    const joinKey = posKey(bestPath[bestPath.length - 1].x, bestPath[bestPath.length - 1].y);
+    const waterSource = networkRoot.get(joinKey) ?? { x: sources[0].x, y: sources[0].y };
     const hose: G.HosePath = {
       id: hoseId,
       source: { x: bestPath[0].x, y: bestPath[0].y }, // first tile in the new path (adjacent to network or near plant)
       target: { x: bestPath[bestPath.length - 1].x, y: bestPath[bestPath.length - 1].y },
       tiles: bestPath.map((p) => ({ x: p.x, y: p.y })),
+      parentId: networkOwner.get(joinKey),
+      waterSource,
     };
     hoses.push(hose);
 
@@ -181,6 +195,8 @@ export function planHoses(
       if (!networkSet.has(k)) {
         networkSet.add(k);
         networkList.push({ x: p.x, y: p.y });
+        networkOwner.set(k, hoseId);
+        networkRoot.set(k, waterSource);
       }
     }
 
@@ -188,8 +204,17 @@ export function planHoses(
     recomputeCoveredPlants();
   }
 
+  // Pick emitters once the whole network is known
+  const emitters = options.emitters ?? "none";
+  if (emitters !== "none") {
+    for (const hose of hoses) {
+      hose.emitter = emitters === "auto" ? pickEmitterType(hose, baseGarden, coverageRadius) : emitters;
+    }
+  }
+
   return {
     ...baseGarden,
     hoses,
+    zones: [],
   };
 }
@@ -3,4 +3,11 @@ export * from './generator'
 export * from './types'
 export * from './grid'
 export * from './hosePlanner'
-export * from './pathfinding'
\ No newline at end of file
+export * from './pathfinding'
+export * from './valves'
+export * from './zones'
+export * from './irrigation'
+export * from './emitters'
+export * from './weather'
+export * from './sensors'
+export * from './sensorPlanner'
\ No newline at end of file
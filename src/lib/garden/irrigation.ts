@@ -0,0 +1,228 @@
+// lib/garden/irrigation.ts
+import { Garden, Simulation, Weather } from "./types";
+import { getOpenHoses } from "./valves";
+import { emitterFootprint, getEmitterType, sprayLossFraction } from "./emitters";
+
+/** Water handed out by the open valves in one tick */
+export interface IrrigationPlan {
+    /** Water reaching each tile [y][x] (before infiltration) */
+    water: number[][];
+    /** What the open hoses asked for at full pressure */
+    requested: number;
+    /** What the sources could actually supply */
+    delivered: number;
+    /** Delivered water that never reached the soil (emitter inefficiency, spray evaporation, drift off the soil) */
+    lost: number;
+    /** Landed water the wind blew onto a tile downwind of its target (included in `water`) */
+    drifted: number;
+    requestedByValve: Record<string, number>;
+    deliveredByValve: Record<string, number>;
+    /** Water drawn from each source, keyed by `Simulation.WaterSource.id` */
+    deliveredBySource: Record<string, number>;
+}
+
+interface IrrigationParams {
+    garden: Garden;
+    config: Simulation.Config;
+    valves: Simulation.ValveStates;
+    /** Supply limits; unlimited supply if omitted */
+    sources?: Simulation.WaterSource[];
+    /** Current weather, for spray losses and drift; neither if omitted */
+    weather?: Weather.State;
+    /**
+     * Fraction of full flow through each valve (see `actuateValves`); hoses
+     * with any flow emit, even while their valve drains after closing.
+     * Open valves run at full flow if omitted.
+     */
+    flow?: Record<string, number>;
+}
+
+interface WaterRequest {
+    x: number;
+    y: number;
+    hoseId: string;
+    /** Hose tiles between the source and the emitting tile */
+    distance: number;
+    amount: number;
+    /** Fraction of the amount that reaches the soil */
+    landed: number;
+    /** Fraction of the landed water blown one tile downwind */
+    drift: number;
+}
+
+/** Even in a gale, some spray still lands where it's aimed */
+const MAX_SPRAY_DRIFT = 0.8;
+
+/** Neighbouring tile offset the wind blows towards (`windDirection` is where it blows from) */
+function downwindStep(windDirection: number): { dx: number; dy: number } {
+    // Grid space: x = east, y = south
+    return { dx: Math.round(-Math.sin(windDirection)) || 0, dy: Math.round(Math.cos(windDirection)) || 0 };
+}
+
+/** Id of the source at a position, shared by `createWaterSources` and hose lookups */
+export function waterSourceId(p: Garden.Position): string {
+    return `source-${p.x}-${p.y}`;
+}
+
+/** One source per `water_source` tile, with the tank/flow defaults from the config */
+export function createWaterSources(
+    garden: Garden,
+    config: Simulation.Config
+): Simulation.WaterSource[] {
+    return garden.tiles.flat()
+        .filter((tile) => tile.type === "water_source")
+        .map((tile) => ({
+            id: waterSourceId(tile),
+            position: { x: tile.x, y: tile.y },
+            flowRate: config.sourceFlowRate,
+            tankCapacity: config.tankCapacity,
+            tankLevel: config.tankCapacity,
+            refillRate: config.tankRefillRate,
+            rainCaptureRate: config.rainCaptureRate,
+        }));
+}
+
+/** Water a source can hand out this tick: its flow rate, or less if its tank is running low */
+export function availableFlow(source: Simulation.WaterSource): number {
+    return source.tankCapacity > 0 ? Math.min(source.flowRate, source.tankLevel) : source.flowRate;
+}
+
+/**
+ * Refill tanks by their refill rate plus captured rain, after drawing what
+ * was delivered this tick. Returns NEW source objects; mains-fed sources
+ * (`tankCapacity` 0) are returned unchanged.
+ */
+export function updateWaterSources(
+    sources: Simulation.WaterSource[],
+    deliveredBySource: Record<string, number>,
+    weather: { rainIntensity: number }
+): Simulation.WaterSource[] {
+    return sources.map((source) => {
+        if (source.tankCapacity <= 0) return source;
+        const drawn = deliveredBySource[source.id] ?? 0;
+        const inflow = source.refillRate + source.rainCaptureRate * weather.rainIntensity;
+        const tankLevel = Math.max(0, Math.min(source.tankCapacity, source.tankLevel - drawn + inflow));
+        return { ...source, tankLevel };
+    });
+}
+
+/**
+ * Work out how much water each tile gets from the open valves.
+ *
+ * Every open hose tile asks for `irrigationRate` (scaled by its emitter's
+ * rate) on each soil tile of its emitter footprint. The hoses fed by a
+ * source share its available flow: requests are served in order of their
+ * distance along the hose network from the source, so when too many
+ * branches are open the far ends lose pressure first. Of what is
+ * delivered, only the emitter's efficiency (minus spray evaporation on
+ * hot, sunny ticks) reaches the soil, and wind blows part of the spray
+ * from spray emitters one tile downwind.
+ */
+export function planIrrigation(params: IrrigationParams): IrrigationPlan {
+    const { garden, config, valves, sources, weather, flow } = params;
+    const { width, height } = garden;
+    const { irrigationRate, coverageRadius } = config;
+
+    const water: number[][] = Array.from({ length: height }, () =>
+        Array.from({ length: width }, () => 0)
+    );
+    const requestedByValve: Record<string, number> = {};
+    const deliveredByValve: Record<string, number> = {};
+    for (const hose of garden.hoses) {
+        requestedByValve[hose.id] = 0;
+        deliveredByValve[hose.id] = 0;
+    }
+
+    const distances = networkDistances(garden.hoses);
+    const { dx, dy } = weather ? downwindStep(weather.windDirection) : { dx: 0, dy: 0 };
+    const requestsBySource = new Map<string, WaterRequest[]>();
+
+    const emitting = flow
+        ? garden.hoses.filter((hose) => (flow[hose.id] ?? 0) > 0)
+        : getOpenHoses(garden.hoses, valves);
+    for (const hose of emitting) {
+        const sourceId = waterSourceId(hose.waterSource);
+        const requests = requestsBySource.get(sourceId) ?? [];
+        requestsBySource.set(sourceId, requests);
+
+        const emitter = getEmitterType(hose);
+        const landed = emitter.efficiency * (1 - (weather ? sprayLossFraction(emitter, weather) : 0));
+        const drift = weather && emitter.sprayLoss > 0
+            ? Math.min(MAX_SPRAY_DRIFT, config.sprayDriftRate * weather.windSpeed)
+            : 0;
+        const pressure = flow?.[hose.id] ?? 1;
+
+        for (const p of hose.tiles) {
+            const distance = distances.get(`${p.x},${p.y}`) ?? 0;
+            for (const target of emitterFootprint(emitter, p, garden, coverageRadius)) {
+                const amount = irrigationRate * emitter.rateMultiplier * target.weight * pressure;
+                requests.push({ x: target.x, y: target.y, hoseId: hose.id, distance, amount, landed, drift });
+                requestedByValve[hose.id] += amount;
+            }
+        }
+    }
+
+    const sourceById = new Map((sources ?? []).map((s) => [s.id, s]));
+    const deliveredBySource: Record<string, number> = {};
+    let requested = 0;
+    let delivered = 0;
+    let lost = 0;
+    let drifted = 0;
+
+    for (const [sourceId, requests] of requestsBySource) {
+        const source = sourceById.get(sourceId);
+        let remaining = !sources ? Infinity : source ? availableFlow(source) : 0;
+
+        // Nearest first; the sort is stable, so ties keep hose order
+        requests.sort((a, b) => a.distance - b.distance);
+
+        let fromSource = 0;
+        for (const r of requests) {
+            const amount = Math.min(r.amount, remaining);
+            remaining -= amount;
+            requested += r.amount;
+            if (amount <= 0) continue;
+            const landed = amount * r.landed;
+            lost += amount - landed;
+            water[r.y][r.x] += landed * (1 - r.drift);
+
+            if (r.drift > 0) {
+                const blown = landed * r.drift;
+                const tx = r.x + dx;
+                const ty = r.y + dy;
+                if (garden.tiles[ty]?.[tx]?.type === "soil") {
+                    water[ty][tx] += blown;
+                    drifted += blown;
+                } else {
+                    lost += blown;
+                }
+            }
+            deliveredByValve[r.hoseId] += amount;
+            fromSource += amount;
+        }
+        deliveredBySource[sourceId] = fromSource;
+        delivered += fromSource;
+    }
+
+    return { water, requested, delivered, lost, drifted, requestedByValve, deliveredByValve, deliveredBySource };
+}
+
+/**
+ * Distance (in hose tiles) from each network tile back to its water source.
+ * Hoses run from their far end (`tiles[0]`) to the tile where they join the
+ * network (last tile), and parents are always listed before their children.
+ */
+function networkDistances(hoses: Garden.HosePath[]): Map<string, number> {
+    const distances = new Map<string, number>();
+    for (const hose of hoses) {
+        const last = hose.tiles.length - 1;
+        if (last < 0) continue;
+        const join = hose.tiles[last];
+        const base = distances.get(`${join.x},${join.y}`) ?? 0;
+        for (let i = last; i >= 0; i--) {
+            const key = `${hose.tiles[i].x},${hose.tiles[i].y}`;
+            if (!distances.has(key)) distances.set(key, base + (last - i));
+        }
+    }
+    return distances;
+}
@@ -1,32 +1,62 @@
 import { useMemo } from "react";
 import { Garden, Simulation } from "./types";
-import { IDEAL_MAX_MOISTURE, IDEAL_MIN_MOISTURE, TICKS_PER_DAY } from "./consts";
+import { TICKS_PER_DAY } from "./consts";
+import { classifyPlantMoisture } from "./plants";
 
-/** Compute metrics */
-export function computeGardenMetrics(state: Simulation.State, garden: Garden): Simulation.Metrics {
-    const { irrigationOn, lastIrrigationTick, tick, episodeLength, cumulativeWaterUsed, waterUsedThisTick } = state;
-
-    const plantTiles = garden.tiles.flat().filter((t) => t.hasPlant);
+type MoistureSummary = Pick<
+    Simulation.Metrics,
+    "avgMoisture" | "minMoisture" | "maxMoisture" | "percentTooDry" | "percentTooWet"
+>;
 
+/**
+ * Moisture of a set of plant tiles, each judged against its own species.
+ * `weights` (default 1 each) say how many plants each tile stands for.
+ */
+function summarizeMoisture(tiles: Garden.Tile[], weights?: number[]): MoistureSummary {
     let sum = 0;
     let min = Infinity;
     let max = -Infinity;
     let dryCount = 0;
     let wetCount = 0;
+    let total = 0;
 
-    for (const tile of plantTiles) {
+    tiles.forEach((tile, i) => {
         const m = tile.moisture;
-        sum += m;
+        const w = weights?.[i] ?? 1;
+        sum += m * w;
+        total += w;
         if (m < min) min = m;
         if (m > max) max = m;
-        if (m < IDEAL_MIN_MOISTURE) dryCount++;
-        if (m > IDEAL_MAX_MOISTURE) wetCount++;
-    }
-
-    const totalPlants = plantTiles.length;
-    const avg = totalPlants > 0 ? sum / totalPlants : 0;
-    const percentDry = totalPlants > 0 ? Math.round((dryCount / totalPlants) * 100) : 0;
-    const percentWet = totalPlants > 0 ? Math.round((wetCount / totalPlants) * 100) : 0;
+        const status = classifyPlantMoisture(tile);
+        if (status === "dry") dryCount += w;
+        if (status === "flooded") wetCount += w;
+    });
+
+    return {
+        avgMoisture: total > 0 ? sum / total : 0,
+        minMoisture: min === Infinity ? 0 : min,
+        maxMoisture: max === -Infinity ? 0 : max,
+        percentTooDry: total > 0 ? Math.round((dryCount / total) * 100) : 0,
+        percentTooWet: total > 0 ? Math.round((wetCount / total) * 100) : 0,
+    };
+}
+
+/** The moisture part of `Simulation.Metrics` */
+export type MoistureMetrics = MoistureSummary & Pick<Simulation.Metrics, "zones">;
+
+/** True moisture of every plant, garden-wide and per zone */
+export function computeMoistureMetrics(garden: Garden): MoistureMetrics {
+    const plantTiles = garden.tiles.flat().filter((t) => t.hasPlant);
+    return {
+        ...summarizeMoisture(plantTiles),
+        zones: garden.zones.map((zone) => computeZoneMetrics(zone, garden)),
+    };
+}
+
+/** Compute metrics */
+export function computeGardenMetrics(state: Simulation.State, garden: Garden): Simulation.Metrics {
+    const { irrigationOn, lastIrrigationTick, tick, episodeLength, cumulativeWaterUsed, waterUsedThisTick } = state;
+
     // Calculate ticks since last irrigation (0 if currently irrigating)
     const ticksSince = irrigationOn ? 0 : (tick - lastIrrigationTick);
     // Compute normalized time of day (assuming TICKS_PER_DAY constitutes a full day cycle)
@@ -34,24 +64,65 @@ export function computeGardenMetrics(state: Simulation.State, garden: Garden): S
     // Compute episode progress (fraction of total ticks completed, 0–1)
     const progress = episodeLength > 0 ? Math.min(tick / episodeLength, 1) : 0;
     return {
-        avgMoisture: avg,
-        minMoisture: min === Infinity ? 0 : min,
-        maxMoisture: max === -Infinity ? 0 : max,
-        percentTooDry: percentDry,
-        percentTooWet: percentWet,
+        ...computeMoistureMetrics(garden),
         irrigationOn: irrigationOn,
         ticksSinceLastIrrigation: ticksSince,
         timeOfDay: timeOfDay,
         episodeProgress: progress,
         waterUsedThisTick: waterUsedThisTick,
-        cumulativeWaterUsed: cumulativeWaterUsed
+        cumulativeWaterUsed: cumulativeWaterUsed,
     };
 }
 
+/** Compute moisture metrics for the living plants covered by one zone */
+export function computeZoneMetrics(zone: Garden.Zone, garden: Garden): Simulation.ZoneMetrics {
+    const { avgMoisture, percentTooDry, percentTooWet } = summarizeMoisture(
+        zone.plants.map((p) => garden.tiles[p.y][p.x]).filter((t) => t.hasPlant)
+    );
+    return { zoneId: zone.id, avgMoisture, percentTooDry, percentTooWet };
+}
+
+/**
+ * Moisture as the soil moisture probes see it: estimated from the sensors'
+ * latest readings, each judged against the species on the probe's tile and
+ * counted `weight` times, instead of from every plant. Probes on tiles
+ * whose plant has died are skipped. A zone without a working probe among
+ * its plants reports the garden-wide estimate.
+ */
+export function estimateMoistureMetrics(
+    sensors: Pick<Simulation.Sensor, "position" | "reading" | "weight">[],
+    garden: Garden
+): MoistureMetrics {
+    const readings = sensors.flatMap((sensor) => {
+        const tile = garden.tiles[sensor.position.y]?.[sensor.position.x];
+        // Dead plants drop out of the metrics, so do probes sitting on them
+        return tile?.hasPlant && sensor.reading !== null ? [{ tile: { ...tile, moisture: sensor.reading }, weight: sensor.weight }] : [];
+    });
+    const summarize = (rs: typeof readings) => summarizeMoisture(rs.map((r) => r.tile), rs.map((r) => r.weight));
+    const estimate = summarize(readings);
+
+    const zones = garden.zones.map((zone): Simulation.ZoneMetrics => {
+        const inZone = readings.filter(({ tile }) => zone.plants.some((p) => p.x === tile.x && p.y === tile.y));
+        const { avgMoisture, percentTooDry, percentTooWet } = inZone.length ? summarize(inZone) : estimate;
+        return { zoneId: zone.id, avgMoisture, percentTooDry, percentTooWet };
+    });
+
+    return { ...estimate, zones };
+}
+
+/**
+ * Metrics as the controller sees them when the garden has soil moisture
+ * probes: the moisture figures come from `estimateMoistureMetrics`, the
+ * rest is the same as `computeGardenMetrics`.
+ */
+export function computeSensorMetrics(state: Simulation.State, garden: Garden): Simulation.Metrics {
+    return { ...computeGardenMetrics(state, garden), ...estimateMoistureMetrics(state.sensors, garden) };
+}
+
 /** Compute all metrics from the current garden state (React hook version) */
 export function useGardenMetrics(state: Simulation.State, garden: Garden): Simulation.Metrics {
     // useMemo to avoid re-computation if state hasn't changed since last render
     return useMemo(() => {
         return computeGardenMetrics(state, garden);
     }, [state, garden]);
-}
\ No newline at end of file
+}
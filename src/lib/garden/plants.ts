@@ -0,0 +1,158 @@
+// lib/garden/plants.ts
+import { IDEAL_MAX_MOISTURE, IDEAL_MIN_MOISTURE } from "./consts";
+import { Garden } from "./types";
+
+/** Plant species catalog with per-species moisture needs */
+export const PLANT_SPECIES: Record<Garden.PlantSpeciesId, Garden.PlantSpecies> = {
+    succulent: {
+        id: "succulent",
+        name: "Succulent",
+        idealMinMoisture: 0.05,
+        idealMaxMoisture: 0.6,
+        droughtTolerance: 0.9,
+        floodTolerance: 0.1,
+        stressBudget: 400,
+        growthRate: 0.002,
+        cropCoefficient: 0.35,
+        color: "#65a30d",
+    },
+    herb: {
+        id: "herb",
+        name: "Herb",
+        idealMinMoisture: 0.1,
+        idealMaxMoisture: 0.9,
+        droughtTolerance: 0.6,
+        floodTolerance: 0.3,
+        stressBudget: 250,
+        growthRate: 0.004,
+        cropCoefficient: 0.7,
+        color: "#0d9488",
+    },
+    tomato: {
+        id: "tomato",
+        name: "Tomato",
+        idealMinMoisture: 0.25,
+        idealMaxMoisture: 1.1,
+        droughtTolerance: 0.3,
+        floodTolerance: 0.3,
+        stressBudget: 200,
+        growthRate: 0.008,
+        cropCoefficient: 1.15,
+        color: "#dc2626",
+    },
+    lettuce: {
+        id: "lettuce",
+        name: "Lettuce",
+        idealMinMoisture: 0.35,
+        idealMaxMoisture: 1.2,
+        droughtTolerance: 0.1,
+        floodTolerance: 0.4,
+        stressBudget: 120,
+        growthRate: 0.006,
+        cropCoefficient: 1.0,
+        color: "#84cc16",
+    },
+    fern: {
+        id: "fern",
+        name: "Fern",
+        idealMinMoisture: 0.45,
+        idealMaxMoisture: 1.4,
+        droughtTolerance: 0.2,
+        floodTolerance: 0.6,
+        stressBudget: 200,
+        growthRate: 0.004,
+        cropCoefficient: 0.9,
+        color: "#15803d",
+    },
+};
+
+/**
+ * Fallback for plants without a species: the global ideal range and no
+ * tolerance, which matches how every plant was judged before species existed.
+ */
+export const DEFAULT_PLANT_SPECIES: Garden.PlantSpecies = {
+    id: "herb",
+    name: "Generic plant",
+    idealMinMoisture: IDEAL_MIN_MOISTURE,
+    idealMaxMoisture: IDEAL_MAX_MOISTURE,
+    droughtTolerance: 0,
+    floodTolerance: 0,
+    stressBudget: 300,
+    growthRate: 0.005,
+    cropCoefficient: 0.8,
+    color: "#16a34a",
+};
+
+/** Default weights used by the generator when picking species for plant beds */
+export const DEFAULT_SPECIES_MIX: Record<Garden.PlantSpeciesId, number> = {
+    succulent: 1,
+    herb: 2,
+    tomato: 2,
+    lettuce: 2,
+    fern: 1,
+};
+
+export type PlantMoistureStatus = "dry" | "healthy" | "flooded";
+
+/** Species of the plant on a tile (the generic fallback if none was assigned) */
+export function getPlantSpecies(tile: Garden.Tile): Garden.PlantSpecies {
+    return tile.species ? PLANT_SPECIES[tile.species] : DEFAULT_PLANT_SPECIES;
+}
+
+/** Judge a plant's moisture against its own species' ideal range */
+export function classifyPlantMoisture(tile: Garden.Tile): PlantMoistureStatus {
+    const species = getPlantSpecies(tile);
+    if (tile.moisture < species.idealMinMoisture) return "dry";
+    if (tile.moisture > species.idealMaxMoisture) return "flooded";
+    return "healthy";
+}
+
+/** A freshly planted, unstressed plant */
+export function createPlantState(): Garden.PlantState {
+    return { health: 1, stress: 0, biomass: 1, alive: true };
+}
+
+/**
+ * Advance the lifecycle of one plant by a tick. Out-of-range moisture adds
+ * stress weighted by the species' tolerance; ideal moisture sheds stress
+ * and grows biomass in proportion to health. Once stress reaches the
+ * species' budget the plant dies and stops changing.
+ */
+export function growPlant(tile: Garden.Tile, recoveryRate: number): Garden.PlantState {
+    const plant = tile.plant ?? createPlantState();
+    if (!plant.alive) return plant;
+
+    const species = getPlantSpecies(tile);
+    const status = classifyPlantMoisture(tile);
+
+    let { stress, biomass } = plant;
+    if (status === "dry") {
+        stress += 1 - species.droughtTolerance;
+    } else if (status === "flooded") {
+        stress += 1 - species.floodTolerance;
+    } else {
+        stress = Math.max(0, stress - recoveryRate);
+    }
+
+    const health = Math.max(0, 1 - stress / species.stressBudget);
+    if (status === "healthy") {
+        biomass += species.growthRate * health;
+    }
+
+    return { health, stress, biomass, alive: health > 0 };
+}
+
+/**
+ * Advance every plant in the garden by one tick.
+ * Returns a NEW Garden; plants that die lose `hasPlant` but keep their `plant` record.
+ */
+export function stepPlantGrowth(garden: Garden, recoveryRate: number): Garden {
+    const tiles = garden.tiles.map((row) =>
+        row.map((tile) => {
+            if (!tile.hasPlant) return tile;
+            const plant = growPlant(tile, recoveryRate);
+            return { ...tile, plant, hasPlant: plant.alive };
+        })
+    );
+    return { ...garden, tiles };
+}
@@ -0,0 +1,279 @@
+// lib/garden/sensorPlanner.ts
+import { Garden, Simulation } from "./types";
+import { mulberry32 } from "../utils";
+import { TICKS_PER_DAY } from "./consts";
+import { stepGardenMoisture } from "./simulation";
+import { computeSunExposure } from "./shade";
+import { computeMoistureMetrics, estimateMoistureMetrics } from "./metrics";
+import { planZones } from "./zones";
+import { SineWeatherModel } from "./weather/SineWeatherModel";
+
+/**
+ * How sensor spots are chosen:
+ * - "spread": plant tiles evenly spaced in row order
+ * - "clusters": group plant tiles by how their moisture behaves in a sample run, one probe per group
+ * - "zones": share the probes out over the irrigation zones, then cluster within each zone
+ */
+export type SensorPlacementStrategy = "spread" | "clusters" | "zones";
+
+export interface SensorPlannerOptions {
+    /** Number of probes */
+    count: number;
+    /** Defaults to "zones" */
+    strategy?: SensorPlacementStrategy;
+    /** Seeds the sample runs and the clustering; the same seed gives the same plan */
+    seed?: number;
+    /** Length of each sample run in ticks (defaults to two days) */
+    sampleTicks?: number;
+    /** Physics for the sample runs */
+    config: Simulation.Config;
+}
+
+/** Mean absolute error of ideal probes' estimate against the true metrics, over every tick of a run */
+export interface SensorEstimationError {
+    avgMoisture: number;
+    /** In percentage points */
+    percentTooDry: number;
+    percentTooWet: number;
+    /** Also averaged over zones */
+    zoneAvgMoisture: number;
+}
+
+export interface SensorPlan {
+    positions: Garden.Position[];
+    /** Plants each probe stands for, in the same order; estimates average the readings by these */
+    weights: number[];
+    /**
+     * Error on a second sample run with different weather and irrigation
+     * from the one the spots were chosen on. Real probes add their own
+     * noise, drift and faults on top.
+     */
+    expectedError: SensorEstimationError;
+}
+
+/** Ticks between random valve switches in a sample run */
+const VALVE_SWITCH_INTERVAL = TICKS_PER_DAY / 4;
+
+/** Chance a hose is open in each switching window of a sample run */
+const SAMPLE_VALVE_OPEN_CHANCE = 0.4;
+
+/** Iteration cap for k-means */
+const MAX_KMEANS_ITERATIONS = 25;
+
+/**
+ * `count` plant tiles evenly spaced through the plant tiles in row order,
+ * so the probes cover the garden from top to bottom.
+ */
+export function spreadSensorPositions(garden: Garden, count: number): Garden.Position[] {
+    const plantTiles = garden.tiles.flat().filter((t) => t.hasPlant);
+    const n = Math.min(Math.max(0, Math.floor(count)), plantTiles.length);
+    return Array.from({ length: n }, (_, i) => {
+        const tile = plantTiles[Math.floor(((i + 0.5) * plantTiles.length) / n)];
+        return { x: tile.x, y: tile.y };
+    });
+}
+
+/**
+ * The garden after every tick of a sample run: seeded sine-wave weather,
+ * and every hose's valve opened or closed at random each quarter day, so
+ * tiles show how they respond to sun, shade, rain and irrigation.
+ */
+function sampleRun(garden: Garden, config: Simulation.Config, seed: number, ticks: number): Garden[] {
+    const weatherModel = new SineWeatherModel(seed);
+    const rand = mulberry32(seed);
+    let weather = weatherModel.initialState();
+    let valves: Simulation.ValveStates = {};
+    let current = garden;
+    const frames: Garden[] = [];
+
+    for (let tick = 0; tick < ticks; tick++) {
+        if (tick % VALVE_SWITCH_INTERVAL === 0) {
+            valves = Object.fromEntries(garden.hoses.map((hose) => [hose.id, rand() < SAMPLE_VALVE_OPEN_CHANCE]));
+        }
+        weather = weatherModel.evolve(weather, tick);
+        current = stepGardenMoisture({
+            garden: current,
+            config,
+            weather,
+            valves,
+            sunExposure: computeSunExposure(current, tick, config),
+        });
+        frames.push(current);
+    }
+    return frames;
+}
+
+const squaredDistance = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0);
+
+/** A tile chosen to stand for a group of `size` tiles */
+interface Representative {
+    index: number;
+    size: number;
+}
+
+/**
+ * Seeded k-means (k-means++ starts) over moisture series; returns the
+ * point nearest each cluster's centre, i.e. the tile that behaves most
+ * like its group, with the size of the group.
+ */
+function clusterRepresentatives(points: number[][], k: number, rand: () => number): Representative[] {
+    if (k >= points.length) return points.map((_, index) => ({ index, size: 1 }));
+    if (k <= 0) return [];
+
+    // k-means++: each new centre picked with probability proportional to its squared distance
+    const centres = [points[Math.floor(rand() * points.length)]];
+    while (centres.length < k) {
+        const weights = points.map((p) => Math.min(...centres.map((c) => squaredDistance(p, c))));
+        const total = weights.reduce((a, b) => a + b, 0);
+        let r = rand() * total;
+        let pick = weights.findIndex((w) => (r -= w) <= 0);
+        if (total === 0 || pick < 0) pick = Math.floor(rand() * points.length);
+        centres.push(points[pick]);
+    }
+
+    let assignment = points.map(() => -1);
+    for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+        const next = points.map((p) => {
+            let best = 0;
+            for (let c = 1; c < centres.length; c++) {
+                if (squaredDistance(p, centres[c]) < squaredDistance(p, centres[best])) best = c;
+            }
+            return best;
+        });
+        if (next.every((c, i) => c === assignment[i])) break;
+        assignment = next;
+        centres.forEach((centre, c) => {
+            const members = points.filter((_, i) => assignment[i] === c);
+            if (!members.length) return;
+            centres[c] = centre.map((_, t) => members.reduce((sum, m) => sum + m[t], 0) / members.length);
+        });
+    }
+
+    // The member nearest each centre; empty clusters give no probe
+    const representatives: Representative[] = [];
+    centres.forEach((centre, c) => {
+        let best = -1;
+        let size = 0;
+        points.forEach((p, i) => {
+            if (assignment[i] !== c) return;
+            size++;
+            if (best < 0 || squaredDistance(p, centre) < squaredDistance(points[best], centre)) best = i;
+        });
+        if (best >= 0) representatives.push({ index: best, size });
+    });
+    return representatives;
+}
+
+/**
+ * Share `count` probes out over the zones: every zone gets one while they
+ * last (largest zones first), the rest go by plant count (D'Hondt), never
+ * more than a zone has plants.
+ */
+function allocateToZones(zones: Garden.Zone[], count: number): number[] {
+    const allocation = zones.map(() => 0);
+    const bySize = zones.map((_, i) => i).sort((a, b) => zones[b].plants.length - zones[a].plants.length);
+    let left = count;
+    for (const i of bySize) {
+        if (left <= 0 || !zones[i].plants.length) break;
+        allocation[i] = 1;
+        left--;
+    }
+    while (left > 0) {
+        let best = -1;
+        zones.forEach((zone, i) => {
+            if (allocation[i] >= zone.plants.length) return;
+            const quotient = zone.plants.length / (allocation[i] + 1);
+            if (best < 0 || quotient > zones[best].plants.length / (allocation[best] + 1)) best = i;
+        });
+        if (best < 0) break;
+        allocation[best]++;
+        left--;
+    }
+    return allocation;
+}
+
+/** Mean absolute error of ideal probes at `positions` over every frame */
+function estimationError(frames: Garden[], positions: Garden.Position[], weights: number[]): SensorEstimationError {
+    const error: SensorEstimationError = { avgMoisture: 0, percentTooDry: 0, percentTooWet: 0, zoneAvgMoisture: 0 };
+    if (!frames.length) return error;
+
+    for (const frame of frames) {
+        const truth = computeMoistureMetrics(frame);
+        const estimate = estimateMoistureMetrics(
+            positions.map((position, i) => ({
+                position,
+                reading: frame.tiles[position.y][position.x].moisture,
+                weight: weights[i],
+            })),
+            frame
+        );
+        error.avgMoisture += Math.abs(estimate.avgMoisture - truth.avgMoisture);
+        error.percentTooDry += Math.abs(estimate.percentTooDry - truth.percentTooDry);
+        error.percentTooWet += Math.abs(estimate.percentTooWet - truth.percentTooWet);
+        if (truth.zones.length) {
+            const zoneError = truth.zones.reduce(
+                (sum, zone, i) => sum + Math.abs(estimate.zones[i].avgMoisture - zone.avgMoisture),
+                0
+            );
+            error.zoneAvgMoisture += zoneError / truth.zones.length;
+        }
+    }
+
+    return {
+        avgMoisture: error.avgMoisture / frames.length,
+        percentTooDry: error.percentTooDry / frames.length,
+        percentTooWet: error.percentTooWet / frames.length,
+        zoneAvgMoisture: error.zoneAvgMoisture / frames.length,
+    };
+}
+
+/**
+ * Choose where to put `count` soil moisture probes so their readings
+ * represent the plants. Works on a garden straight from `planHoses` (zones
+ * are planned with the default strategy if it has none). Deterministic:
+ * the same garden, options and seed always give the same plan.
+ */
+export function planSensors(garden: Garden, options: SensorPlannerOptions): SensorPlan {
+    const { count, strategy = "zones", seed = garden.seed ?? 0, config } = options;
+    const sampleTicks = options.sampleTicks ?? 2 * TICKS_PER_DAY;
+    const zoned = garden.zones.length
+        ? garden
+        : planZones(garden, { coverageRadius: config.coverageRadius });
+
+    const rand = mulberry32(seed);
+    const plantTiles = zoned.tiles.flat().filter((t) => t.hasPlant);
+    const needsRun = strategy !== "spread" && plantTiles.length > count;
+    const frames = needsRun ? sampleRun(zoned, config, seed, sampleTicks) : [];
+    // Each tile's moisture series over the planning run
+    const series = (tiles: Garden.Position[]) => tiles.map((p) => frames.map((frame) => frame.tiles[p.y][p.x].moisture));
+
+    let chosen: { position: Garden.Position; weight: number }[];
+    if (strategy === "spread") {
+        chosen = spreadSensorPositions(zoned, count).map((position) => ({ position, weight: 1 }));
+    } else if (strategy === "clusters" || !zoned.zones.length) {
+        chosen = clusterRepresentatives(series(plantTiles), count, rand).map(({ index, size }) => ({
+            position: plantTiles[index],
+            weight: size,
+        }));
+    } else {
+        // Plants within reach of two zones count for the first one
+        const taken = new Set<string>();
+        const zones = zoned.zones.map((zone) => {
+            const plants = zone.plants.filter((p) => !taken.has(`${p.x},${p.y}`));
+            plants.forEach((p) => taken.add(`${p.x},${p.y}`));
+            return { ...zone, plants };
+        });
+        const allocation = allocateToZones(zones, count);
+        chosen = zones.flatMap((zone, z) =>
+            clusterRepresentatives(series(zone.plants), allocation[z], rand).map(({ index, size }) => ({
+                position: zone.plants[index],
+                weight: size,
+            }))
+        );
+    }
+    const positions = chosen.map(({ position: { x, y } }) => ({ x, y }));
+    const weights = chosen.map(({ weight }) => weight);
+
+    const evaluation = sampleRun(zoned, config, seed + 1, sampleTicks);
+    return { positions, weights, expectedError: estimationError(evaluation, positions, weights) };
+}
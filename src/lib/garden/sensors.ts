@@ -0,0 +1,89 @@
+// lib/garden/sensors.ts
+import { Garden, Simulation } from "./types";
+import { mulberry32 } from "../utils";
+import { planSensors, SensorPlacementStrategy } from "./sensorPlanner";
+
+/** Probe hardware by quality tier */
+export const SENSOR_HARDWARE: Record<Simulation.SensorGrade, Simulation.SensorHardware> = {
+    ideal: { noise: 0, drift: 0, samplingInterval: 1, dropoutRate: 0, stuckRate: 0 },
+    standard: { noise: 0.03, drift: 0.0005, samplingInterval: 3, dropoutRate: 0.02, stuckRate: 0.0002 },
+    cheap: { noise: 0.1, drift: 0.002, samplingInterval: 10, dropoutRate: 0.1, stuckRate: 0.002 },
+};
+
+/** Probes placed when no positions are given */
+export const DEFAULT_SENSOR_COUNT = 4;
+
+export interface SensorOptions {
+    /** Tiles to put probes on (defaults to `count` spots chosen by `planSensors`) */
+    positions?: Garden.Position[];
+    /** Number of probes to place when no positions are given */
+    count?: number;
+    /** How `planSensors` chooses the spots (defaults to "zones") */
+    placement?: SensorPlacementStrategy;
+    /** Characteristics of every probe (defaults to the "standard" grade) */
+    hardware?: Partial<Simulation.SensorHardware>;
+}
+
+/**
+ * Working, calibrated probes with no reading yet. Without explicit
+ * positions the spots are planned on the garden's own physics and seed.
+ */
+export function createSensors(
+    garden: Garden,
+    options: SensorOptions,
+    config: Simulation.Config,
+    seed: number
+): Simulation.Sensor[] {
+    const hardware = { ...SENSOR_HARDWARE.standard, ...options.hardware };
+    const { positions, weights } = options.positions
+        ? { positions: options.positions, weights: options.positions.map(() => 1) }
+        : planSensors(garden, {
+            count: options.count ?? DEFAULT_SENSOR_COUNT,
+            strategy: options.placement,
+            seed,
+            config,
+        });
+    return positions.map((position, i) => ({
+        id: `sensor-${i + 1}`,
+        position: { x: position.x, y: position.y },
+        weight: weights[i],
+        ...hardware,
+        reading: null,
+        readingTick: -1,
+        offset: 0,
+        stuck: false,
+    }));
+}
+
+/**
+ * Advance the probes by one tick and take this tick's samples.
+ * Every probe's calibration drifts; on its sampling ticks a probe reports
+ * the tile's moisture plus its offset and noise, unless the sample drops
+ * out (the old reading stands) or the probe gets stuck (it keeps reporting
+ * its last reading as if it were fresh). The same seed and tick always give
+ * the same readings. Returns NEW sensors.
+ */
+export function readSensors(
+    sensors: Simulation.Sensor[],
+    garden: Garden,
+    tick: number,
+    seed: number
+): Simulation.Sensor[] {
+    const rand = mulberry32(seed * 65537 + tick);
+    const gauss = () => Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+
+    return sensors.map((sensor) => {
+        const offset = sensor.offset + sensor.drift * gauss();
+        const sampled = tick % Math.max(1, Math.round(sensor.samplingInterval)) === 0;
+        if (!sampled) return { ...sensor, offset };
+        if (sensor.stuck) return { ...sensor, offset, readingTick: tick };
+        if (sensor.reading !== null && rand() < sensor.stuckRate) {
+            return { ...sensor, offset, stuck: true, readingTick: tick };
+        }
+        if (rand() < sensor.dropoutRate) return { ...sensor, offset };
+
+        const moisture = garden.tiles[sensor.position.y]?.[sensor.position.x]?.moisture ?? 0;
+        const reading = Math.max(0, moisture + offset + sensor.noise * gauss());
+        return { ...sensor, offset, reading, readingTick: tick };
+    });
+}
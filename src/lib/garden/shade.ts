@@ -0,0 +1,93 @@
+// lib/garden/shade.ts
+import { DEFAULT_DAY_LENGTH, TICKS_PER_DAY } from "./consts";
+import { Garden } from "./types";
+
+export interface SunPosition {
+    /** Compass direction of the sun in radians (0 = north, π/2 = east, π = south, 3π/2 = west) */
+    azimuth: number;
+    /** Height of the sun above the horizon in radians (≤ 0 at night) */
+    altitude: number;
+}
+
+export interface ShadeOptions {
+    /** Height of a pillar, in tiles */
+    pillarHeight: number;
+    /** Fraction of sunlight a shadow blocks (0–1) */
+    shadeDepth: number;
+}
+
+/** Shadows never reach further than this many tiles, even at sunrise/sunset */
+const MAX_SHADOW_LENGTH = 8;
+
+/** Highest the sun gets at midday (~60°) */
+const MAX_ALTITUDE = Math.PI / 3;
+
+/**
+ * Sun position for a tick, following the same day cycle as the weather
+ * models: the sun crosses the south at a quarter day and is up for
+ * `dayLength` of the day around it, rising in the east and setting in the
+ * west. With the default half day it rises at the start of the day and
+ * sets at half a day, like `evolveWeather`.
+ */
+export function sunPosition(tick: number, dayLength: number = DEFAULT_DAY_LENGTH): SunPosition {
+    const dayPhase = (tick % TICKS_PER_DAY) / TICKS_PER_DAY; // 0..1
+    const sinceSunrise = (dayPhase - (0.25 - dayLength / 2) + 1) % 1;
+    const daylight = sinceSunrise < dayLength
+        ? Math.sin((Math.PI * sinceSunrise) / dayLength) // > 0 during the day
+        : -Math.sin((Math.PI * (sinceSunrise - dayLength)) / (1 - dayLength));
+
+    // Sweep from east (π/2) to west (3π/2) while the sun is up
+    const azimuth = Math.PI / 2 + Math.min(1, sinceSunrise / dayLength) * Math.PI;
+    const altitude = daylight * MAX_ALTITUDE;
+
+    return { azimuth, altitude };
+}
+
+/**
+ * Per-tile sun exposure (0 = fully shaded, 1 = full sun), indexed [y][x].
+ *
+ * Each pillar casts a shadow away from the sun whose length depends on the
+ * sun's altitude. Shadows overlap rather than stack. At night every tile is
+ * reported as fully exposed, since there is no sun to block. `dayLength`
+ * is the weather model's (see `WeatherModel.dayLength`), so shadows follow
+ * the same sunrise and sunset as the weather's sun.
+ */
+export function computeSunExposure(
+    garden: Garden,
+    tick: number,
+    options: ShadeOptions,
+    dayLength: number = DEFAULT_DAY_LENGTH
+): number[][] {
+    const { width, height, tiles } = garden;
+    const exposure: number[][] = Array.from({ length: height }, () =>
+        Array.from({ length: width }, () => 1)
+    );
+
+    const { azimuth, altitude } = sunPosition(tick, dayLength);
+    if (altitude <= 0 || options.pillarHeight <= 0 || options.shadeDepth <= 0) {
+        return exposure;
+    }
+
+    const shadowLength = Math.min(MAX_SHADOW_LENGTH, options.pillarHeight / Math.tan(altitude));
+    // Shadows point away from the sun (grid space: x = east, y = south)
+    const dirX = -Math.sin(azimuth);
+    const dirY = Math.cos(azimuth);
+    const shaded = 1 - options.shadeDepth;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (tiles[y][x].type !== "pillar") continue;
+
+            // March along the shadow in half-tile steps
+            for (let d = 0.5; d <= shadowLength; d += 0.5) {
+                const sx = Math.round(x + dirX * d);
+                const sy = Math.round(y + dirY * d);
+                if (sx < 0 || sx >= width || sy < 0 || sy >= height) break;
+                if (sx === x && sy === y) continue;
+                exposure[sy][sx] = Math.min(exposure[sy][sx], shaded);
+            }
+        }
+    }
+
+    return exposure;
+}
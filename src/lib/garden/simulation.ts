@@ -2,25 +2,44 @@
 import { mulberry32 } from "../utils";
 import { TICKS_PER_DAY } from "./consts";
 import { Garden, Garden as GardenNS, Simulation, Weather } from "./types";
+import { planIrrigation } from "./irrigation";
+import { getSoilType } from "./soils";
+import { getPlantSpecies } from "./plants";
+import { referenceEvapotranspiration } from "./evapotranspiration";
 
 interface StepParams {
     garden: Garden;
     config: Simulation.Config;
     weather: Weather.State;
-    irrigationOn: boolean;
+    valves: Simulation.ValveStates;
+    /** Per-tile sun exposure from `computeSunExposure`; full sun everywhere if omitted */
+    sunExposure?: number[][];
+    /** Irrigation water per tile from `planIrrigation`; unlimited supply from `valves` if omitted */
+    irrigation?: number[][];
 }
 
 /**
  * One simulation tick: update moisture based on irrigation, weather, diffusion.
+ * Each soil tile's soil type scales how much water soaks in, how fast it
+ * evaporates, how easily it spreads sideways and how much the tile can hold.
+ * Shaded tiles only get their share of the sun's drying effect.
  * Returns a NEW Garden (tiles array cloned), only moisture changes.
  */
 export function stepGardenMoisture(params: StepParams): Garden {
-    const { garden, config, weather, irrigationOn } = params;
+    return stepGardenWater(params).garden;
+}
+
+/**
+ * Same as `stepGardenMoisture`, but also returns the tick's water ledger:
+ * every amount of water that entered or left the soil tiles, including
+ * what the clamp to [0, capacity] created or destroyed.
+ */
+export function stepGardenWater(params: StepParams): { garden: Garden; ledger: Simulation.WaterLedger } {
+    const { garden, config, weather, valves, sunExposure } = params;
+    const irrigation = params.irrigation ?? planIrrigation({ garden, config, valves, weather }).water;
     const { width, height } = garden;
     const tiles = garden.tiles;
 
-    const coverageRadius = config.coverageRadius;
-
     // Clone tiles shallowly, but we will replace each tile with a copy when updating
     const newTiles: GardenNS.Tile[][] = tiles.map((row) => row.slice() as GardenNS.Tile[]);
 
@@ -28,62 +47,93 @@ export function stepGardenMoisture(params: StepParams): Garden {
     const moisture: number[][] = Array.from({ length: height }, (_, y) =>
         Array.from({ length: width }, (_, x) => tiles[y][x].moisture ?? 0)
     );
+    const storageBefore = sumSoilMoisture(garden, moisture);
+    let irrigationIn = 0;
+    let rainIn = 0;
+    let evaporationOut = 0;
+    let transpirationOut = 0;
+    let overflowOut = 0;
+    let underflowIn = 0;
+
+    // Water that hasn't soaked in yet; it runs downhill in phase 1b
+    const surface: number[][] = Array.from({ length: height }, () =>
+        Array.from({ length: width }, () => 0)
+    );
 
     // ---- 1. Irrigation + rain (source terms) ----
-    const { irrigationRate, rainToMoisture, baseEvaporationRate, maxMoisture } = config;
-
-    // Irrigation: water all soil tiles within coverageRadius of each hose tile
-    if (irrigationOn) {
-        for (const hose of garden.hoses) {
-            for (const p of hose.tiles) {
-                for (let dy = -coverageRadius; dy <= coverageRadius; dy++) {
-                    for (let dx = -coverageRadius; dx <= coverageRadius; dx++) {
-                        const nx = p.x + dx;
-                        const ny = p.y + dy;
-                        if (
-                            nx >= 0 && nx < width &&
-                            ny >= 0 && ny < height &&
-                            Math.abs(dx) + Math.abs(dy) <= coverageRadius
-                        ) {
-                            const tile = tiles[ny][nx];
-                            if (tile.type === "soil") {
-                                moisture[ny][nx] += irrigationRate;
-                            }
-                        }
-                    }
-                }
+    const { rainToMoisture, baseEvaporationRate, maxMoisture } = config;
+
+    // Irrigation: whatever the open hoses delivered to each soil tile
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const tile = tiles[y][x];
+            if (tile.type === "soil" && irrigation[y][x] > 0) {
+                const infiltration = getSoilType(tile).infiltration;
+                moisture[y][x] += irrigation[y][x] * infiltration;
+                surface[y][x] += irrigation[y][x] * (1 - infiltration);
+                irrigationIn += irrigation[y][x];
             }
         }
     }
 
-    // Rain adds a bit of moisture everywhere on soil
+    // Rain adds a bit of moisture everywhere on soil; part of a heavy downpour runs off instead
     if (weather.rainIntensity > 0) {
         const rainAmount = rainToMoisture * weather.rainIntensity;
+        const heavyRain = weather.rainIntensity >= config.heavyRainThreshold;
+        const soakFraction = heavyRain ? 1 - config.heavyRainRunoffFraction : 1;
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
                 const tile = tiles[y][x];
                 if (tile.type === "soil") {
-                    moisture[y][x] += rainAmount;
+                    const soaked = rainAmount * getSoilType(tile).infiltration * soakFraction;
+                    moisture[y][x] += soaked;
+                    surface[y][x] += rainAmount - soaked;
+                    rainIn += rainAmount;
                 }
             }
         }
     }
 
+    // ---- 1b. Runoff: surface water and water above field capacity flow downhill ----
+    const drainedOut = routeRunoff(garden, config, moisture, surface);
+
     // ---- 2. Evaporation (sink term) ----
-    // Simple model: more sun + temp, less air humidity ⇒ more evaporation
-    const climateFactor =
+    // Simple model: more sun + temp + wind, less air humidity ⇒ more evaporation
+    const climateFactor = (exposure: number) =>
         1 +
-        0.5 * weather.sunIntensity +
-        0.02 * (weather.temperature - 20) -
+        0.5 * weather.sunIntensity * exposure +
+        0.02 * (weather.temperature - 20) +
+        config.windEvaporationRate * weather.windSpeed -
         0.5 * weather.humidity;
 
-    const evaporationRate = Math.max(0, baseEvaporationRate * climateFactor);
-
     for (let y = 0; y < height; y++) {
         for (let x = 0; x < width; x++) {
             const tile = tiles[y][x];
             if (tile.type === "soil") {
-                moisture[y][x] -= evaporationRate;
+                const exposure = sunExposure?.[y]?.[x] ?? 1;
+
+                if (config.evapotranspirationModel === "linear") {
+                    const evaporationRate = Math.max(0, baseEvaporationRate * climateFactor(exposure));
+                    const evaporated = evaporationRate * getSoilType(tile).evaporationMultiplier;
+                    moisture[y][x] -= evaporated;
+                    evaporationOut += evaporated;
+                    continue;
+                }
+
+                // Reference ET: the soil surface and the plant each take their share,
+                // but neither can take more water than the tile holds
+                const et0 = referenceEvapotranspiration(weather, exposure, config) * config.etToMoisture;
+                const evaporationDemand = config.soilEvaporationCoefficient * et0 * getSoilType(tile).evaporationMultiplier;
+                const evaporated = Math.min(evaporationDemand, Math.max(0, moisture[y][x]));
+                moisture[y][x] -= evaporated;
+                evaporationOut += evaporated;
+
+                if (tile.hasPlant) {
+                    const transpirationDemand = getPlantSpecies(tile).cropCoefficient * et0;
+                    const transpired = Math.min(transpirationDemand, Math.max(0, moisture[y][x]));
+                    moisture[y][x] -= transpired;
+                    transpirationOut += transpired;
+                }
             }
         }
     }
@@ -118,7 +168,13 @@ export function stepGardenMoisture(params: StepParams): Garden {
                 const diff = m1 - m2;
                 if (diff === 0) continue;
 
-                const delta = diffusionRate * diff;
+                // Harmonic mean: water moves only as fast as the less permeable soil lets it
+                const c1 = getSoilType(tile).diffusionCoefficient;
+                const c2 = getSoilType(ntile).diffusionCoefficient;
+                const coefficient = c1 + c2 > 0 ? (2 * c1 * c2) / (c1 + c2) : 0;
+
+                // Cap the per-neighbour exchange so fast soils can't overshoot (explicit scheme stability)
+                const delta = Math.min(0.25, diffusionRate * coefficient) * diff;
                 diffs[y][x] -= delta;
                 diffs[ny][nx] += delta;
             }
@@ -137,7 +193,11 @@ export function stepGardenMoisture(params: StepParams): Garden {
         for (let x = 0; x < width; x++) {
             const tile = tiles[y][x];
             if (tile.type === "soil") {
-                const clamped = Math.max(0, Math.min(maxMoisture, moisture[y][x]));
+                const capacity = maxMoisture * getSoilType(tile).waterCapacity;
+                const clamped = Math.max(0, Math.min(capacity, moisture[y][x]));
+                // Clamping destroys water above capacity and creates it below 0
+                overflowOut += Math.max(0, moisture[y][x] - capacity);
+                underflowIn += Math.max(0, -moisture[y][x]);
                 newTiles[y][x] = {
                     ...tile,
                     moisture: clamped,
@@ -149,12 +209,182 @@ export function stepGardenMoisture(params: StepParams): Garden {
         }
     }
 
+    const newGarden = { ...garden, tiles: newTiles };
+    const storageChange = sumSoilMoisture(newGarden) - storageBefore;
+    const imbalance =
+        irrigationIn + rainIn + underflowIn - evaporationOut - transpirationOut - drainedOut - overflowOut - storageChange;
+
     return {
-        ...garden,
-        tiles: newTiles,
+        garden: newGarden,
+        ledger: {
+            irrigationIn,
+            rainIn,
+            evaporationOut,
+            transpirationOut,
+            drainedOut,
+            overflowOut,
+            underflowIn,
+            storageChange,
+            imbalance,
+        },
     };
 }
 
+/** Total water held by the soil tiles, optionally from a separate moisture grid */
+function sumSoilMoisture(garden: Garden, moisture?: number[][]): number {
+    let total = 0;
+    for (let y = 0; y < garden.height; y++) {
+        for (let x = 0; x < garden.width; x++) {
+            if (garden.tiles[y][x].type !== "soil") continue;
+            total += moisture ? moisture[y][x] : garden.tiles[y][x].moisture;
+        }
+    }
+    return total;
+}
+
+/** A ledger with every term at 0 */
+export function emptyWaterLedger(): Simulation.WaterLedger {
+    return {
+        irrigationIn: 0,
+        rainIn: 0,
+        evaporationOut: 0,
+        transpirationOut: 0,
+        drainedOut: 0,
+        overflowOut: 0,
+        underflowIn: 0,
+        storageChange: 0,
+        imbalance: 0,
+    };
+}
+
+/** Term-by-term sum of two ledgers */
+export function addWaterLedgers(a: Simulation.WaterLedger, b: Simulation.WaterLedger): Simulation.WaterLedger {
+    return {
+        irrigationIn: a.irrigationIn + b.irrigationIn,
+        rainIn: a.rainIn + b.rainIn,
+        evaporationOut: a.evaporationOut + b.evaporationOut,
+        transpirationOut: a.transpirationOut + b.transpirationOut,
+        drainedOut: a.drainedOut + b.drainedOut,
+        overflowOut: a.overflowOut + b.overflowOut,
+        underflowIn: a.underflowIn + b.underflowIn,
+        storageChange: a.storageChange + b.storageChange,
+        imbalance: a.imbalance + b.imbalance,
+    };
+}
+
+/**
+ * Throw when a ledger doesn't balance, i.e. water appeared or vanished
+ * without being booked. `tolerance` is relative to the total water moved.
+ */
+export function assertWaterBalance(ledger: Simulation.WaterLedger, tolerance = 1e-9): void {
+    const moved =
+        ledger.irrigationIn + ledger.rainIn + ledger.underflowIn +
+        ledger.evaporationOut + ledger.transpirationOut + ledger.drainedOut + ledger.overflowOut;
+    if (Math.abs(ledger.imbalance) > tolerance * Math.max(1, moved)) {
+        throw new Error(
+            `Water balance off by ${ledger.imbalance} ` +
+            `(in: irrigation ${ledger.irrigationIn}, rain ${ledger.rainIn}, underflow ${ledger.underflowIn}; ` +
+            `out: evaporation ${ledger.evaporationOut}, transpiration ${ledger.transpirationOut}, drained ${ledger.drainedOut}, overflow ${ledger.overflowOut}; ` +
+            `storage change ${ledger.storageChange})`
+        );
+    }
+}
+
+/**
+ * Move surface water plus soil water above field capacity toward lower
+ * neighbours, a few passes per tick. Whatever is still on the surface at the
+ * end soaks into the tile it stopped on, so water pools in low spots.
+ * With `pathDrainage`, path tiles accept runoff and carry it out of the garden.
+ * Updates `moisture` and `surface` in place; returns the amount drained.
+ */
+function routeRunoff(
+    garden: Garden,
+    config: Simulation.Config,
+    moisture: number[][],
+    surface: number[][]
+): number {
+    const { width, height, tiles } = garden;
+    const { fieldCapacity, runoffRate, runoffIterations, maxMoisture, pathDrainage } = config;
+    const neighbors4 = [
+        [1, 0],
+        [-1, 0],
+        [0, 1],
+        [0, -1],
+    ] as const;
+
+    const elevationOf = (tile: GardenNS.Tile) => tile.elevation ?? 0;
+    const acceptsRunoff = (tile: GardenNS.Tile) =>
+        tile.type === "soil" || (pathDrainage && tile.type === "path");
+
+    let drained = 0;
+
+    for (let pass = 0; pass < runoffIterations; pass++) {
+        const inflow: number[][] = Array.from({ length: height }, () =>
+            Array.from({ length: width }, () => 0)
+        );
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const tile = tiles[y][x];
+                if (tile.type !== "soil") continue;
+
+                const holdLimit = fieldCapacity * maxMoisture * getSoilType(tile).waterCapacity;
+                const surplus = Math.max(0, moisture[y][x] - holdLimit);
+                const available = surface[y][x] + surplus;
+                if (available <= 0) continue;
+
+                // Lower neighbours share the outflow in proportion to the elevation drop
+                const elevation = elevationOf(tile);
+                const drops: { x: number; y: number; drop: number }[] = [];
+                let totalDrop = 0;
+                for (const [dx, dy] of neighbors4) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                    const ntile = tiles[ny][nx];
+                    if (!acceptsRunoff(ntile)) continue;
+                    const drop = elevation - elevationOf(ntile);
+                    if (drop <= 0) continue;
+                    drops.push({ x: nx, y: ny, drop });
+                    totalDrop += drop;
+                }
+                if (!drops.length) continue;
+
+                // Take from the surface first, then from the soil surplus
+                const outflow = available * runoffRate;
+                const fromSurface = Math.min(surface[y][x], outflow);
+                surface[y][x] -= fromSurface;
+                moisture[y][x] -= outflow - fromSurface;
+
+                for (const d of drops) {
+                    inflow[d.y][d.x] += outflow * (d.drop / totalDrop);
+                }
+            }
+        }
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (inflow[y][x] === 0) continue;
+                if (tiles[y][x].type === "path") {
+                    drained += inflow[y][x];
+                } else {
+                    surface[y][x] += inflow[y][x];
+                }
+            }
+        }
+    }
+
+    // Remaining surface water soaks in where it stopped
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            moisture[y][x] += surface[y][x];
+            surface[y][x] = 0;
+        }
+    }
+
+    return drained;
+}
+
 export function evolveWeather(seed: number, prev: Weather.State, tick: number): Weather.State {
 
     const rand = mulberry32(seed + tick);
@@ -171,5 +401,24 @@ export function evolveWeather(seed: number, prev: Weather.State, tick: number):
         humidity: 0.4 + 0.3 * (1 - sunIntensity), // more humid at night
         sunIntensity,
         rainIntensity: randomRain,
+        // breeze that picks up in the sunny part of the day
+        ...evolveWind(prev, rand, 1.5 + 2.5 * sunIntensity),
     };
 }
+
+/**
+ * Wind for the next tick: the speed drifts back towards `meanSpeed` with
+ * random gusts, and the direction wanders slowly. Shared by the weather
+ * models so wind behaves the same whatever else they do.
+ */
+export function evolveWind(
+    prev: Weather.State,
+    rand: () => number,
+    meanSpeed: number
+): Pick<Weather.State, "windSpeed" | "windDirection"> {
+    const gust = (rand() - 0.5) * 1.5;
+    const windSpeed = Math.max(0, prev.windSpeed + 0.1 * (meanSpeed - prev.windSpeed) + gust);
+    const turn = (rand() - 0.5) * 0.3;
+    const windDirection = (((prev.windDirection + turn) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    return { windSpeed, windDirection };
+}
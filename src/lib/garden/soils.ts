@@ -0,0 +1,55 @@
+// lib/garden/soils.ts
+import { Garden } from "./types";
+
+/** Soil type catalog; loam is the neutral reference (all multipliers 1) */
+export const SOIL_TYPES: Record<Garden.SoilTypeId, Garden.SoilType> = {
+    sand: {
+        id: "sand",
+        name: "Sand",
+        infiltration: 1,
+        waterCapacity: 0.6,
+        evaporationMultiplier: 1.3,
+        diffusionCoefficient: 1.6,
+        color: "#e8d18f",
+    },
+    loam: {
+        id: "loam",
+        name: "Loam",
+        infiltration: 1,
+        waterCapacity: 1,
+        evaporationMultiplier: 1,
+        diffusionCoefficient: 1,
+        color: "#8b5e34",
+    },
+    clay: {
+        id: "clay",
+        name: "Clay",
+        infiltration: 0.7,
+        waterCapacity: 1.4,
+        evaporationMultiplier: 0.8,
+        diffusionCoefficient: 0.4,
+        color: "#b45309",
+    },
+    mulched: {
+        id: "mulched",
+        name: "Mulched",
+        infiltration: 0.9,
+        waterCapacity: 1.1,
+        evaporationMultiplier: 0.5,
+        diffusionCoefficient: 1,
+        color: "#44403c",
+    },
+};
+
+/** Default weights used by the generator when picking soil types for regions */
+export const DEFAULT_SOIL_MIX: Record<Garden.SoilTypeId, number> = {
+    sand: 1,
+    loam: 3,
+    clay: 1,
+    mulched: 1,
+};
+
+/** Soil type of a tile (loam if none was assigned) */
+export function getSoilType(tile: Garden.Tile): Garden.SoilType {
+    return SOIL_TYPES[tile.soil ?? "loam"];
+}
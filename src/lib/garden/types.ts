@@ -16,15 +16,119 @@ export namespace Garden {
 
     export interface Tile extends Position {
         type: Tile.Type
-        hasPlant: boolean
+        hasPlant: boolean // true while a living plant grows here
+        species?: PlantSpeciesId // set when hasPlant; plants without one use the global ideal range
+        plant?: PlantState // lifecycle of the plant; kept after it dies (with hasPlant = false)
+        soil?: SoilTypeId // soil tiles only; tiles without one behave like loam
+        elevation?: number // 0 = lowest point of the garden, 1 = highest (flat if unset)
         moisture: number  // 0 = dry, 1 = ideal, >1 = flooded
     }
 
+    export type SoilTypeId =
+        | "sand"
+        | "loam"
+        | "clay"
+        | "mulched"
+
+    export interface SoilType {
+        id: SoilTypeId
+        name: string
+        /** Fraction of incoming irrigation/rain that soaks in (0–1) */
+        infiltration: number
+        /** Multiplier on `Simulation.Config.maxMoisture` (how much water the soil can hold) */
+        waterCapacity: number
+        /** Multiplier on the evaporation rate */
+        evaporationMultiplier: number
+        /** Multiplier on `Simulation.Config.diffusionRate` for lateral flow */
+        diffusionCoefficient: number
+        /** Display color for the soil overlay */
+        color: string
+    }
+
+    export type PlantSpeciesId =
+        | "succulent"
+        | "herb"
+        | "tomato"
+        | "lettuce"
+        | "fern"
+
+    export interface PlantSpecies {
+        id: PlantSpeciesId
+        name: string
+        /** Below this moisture the plant counts as too dry */
+        idealMinMoisture: number
+        /** Above this moisture the plant counts as flooded */
+        idealMaxMoisture: number
+        /** 0–1, how well the plant shrugs off dry ticks (1 = not harmed at all) */
+        droughtTolerance: number
+        /** 0–1, how well the plant shrugs off flooded ticks (1 = not harmed at all) */
+        floodTolerance: number
+        /** Weighted stress ticks the plant survives before it dies */
+        stressBudget: number
+        /** Biomass gained per tick in the ideal range, at full health */
+        growthRate: number
+        /** Crop coefficient Kc: transpiration as a multiple of reference evapotranspiration */
+        cropCoefficient: number
+        /** Display color for the plant marker */
+        color: string
+    }
+
+    /** Lifecycle of a single plant */
+    export interface PlantState {
+        /** 1 = unstressed, 0 = dead (1 - stress / stressBudget) */
+        health: number
+        /** Accumulated stress; recovers slowly while in the ideal range */
+        stress: number
+        /** Plant size, starts at 1 and grows under ideal moisture */
+        biomass: number
+        alive: boolean
+    }
+
     export interface HosePath {
         id: string
         source: Position
         target: Position
         tiles: Position[] // ordered positions from source to target
+        parentId?: string // hose this segment joins; undefined when it joins a water source directly
+        waterSource: Position // water source at the root of this hose's tree
+        emitter?: EmitterTypeId // how the hose waters; unset = plain hose watering every tile within coverageRadius
+    }
+
+    export type EmitterTypeId =
+        | "drip"
+        | "soaker"
+        | "sprinkler"
+
+    /**
+     * Watering footprint of one hose tile:
+     * - "diamond": every soil tile within `coverageRadius` (Manhattan), flat rate
+     * - "point": only plant tiles within `coverageRadius`
+     * - "line": the hose tile and its direct neighbours
+     * - "circle": every soil tile within `coverageRadius + 1` (Euclidean), falling off with distance
+     */
+    export type EmitterPattern = "diamond" | "point" | "line" | "circle"
+
+    export interface EmitterType {
+        id: EmitterTypeId
+        name: string
+        pattern: EmitterPattern
+        /** Multiplier on `Simulation.Config.irrigationRate` per watered tile */
+        rateMultiplier: number
+        /** Fraction of the water drawn from the source that reaches the soil (0–1) */
+        efficiency: number
+        /** Extra fraction lost to evaporation in full sun at 30°C (0–1); scales down with sun and heat */
+        sprayLoss: number
+        /** Display color for the hose */
+        color: string
+    }
+
+    /** A group of hoses that can be scheduled together, like a physical irrigation zone */
+    export interface Zone {
+        id: string
+        name: string
+        waterSource: Position
+        hoseIds: string[]
+        plants: Position[] // plant tiles within reach of the zone's hoses
     }
 
 }
@@ -34,6 +138,7 @@ export interface Garden {
     height: number
     tiles: Garden.Tile[][] // tiles[y][x]
     hoses: Garden.HosePath[]
+    zones: Garden.Zone[]
     seed?: number // Optional: seed used for deterministic generation
 }
 
@@ -48,15 +153,114 @@ export namespace Weather {
         sunIntensity: number
         /** 0–1, 0 = no rain, 1 = heavy rain */
         rainIntensity: number
+        /** m/s, e.g. 0–20 */
+        windSpeed: number
+        /** Direction the wind blows FROM in radians (0 = north, π/2 = east), like `SunPosition.azimuth` */
+        windDirection: number
+    }
+
+    export type EventKind = "heatwave" | "drought" | "cloudburst" | "cold_snap"
+
+    /** Extreme weather that overrides the weather model for a window of ticks */
+    export interface Event {
+        kind: EventKind
+        /** First tick of the event */
+        start: number
+        /** Length in ticks */
+        duration: number
+        /** 0–1, how extreme */
+        severity: number
+    }
+
+    /** What the forecast says about rain at one future tick */
+    export interface RainForecast {
+        /** 0–1, chance that it rains at all */
+        probability: number
+        /** Expected rain intensity if it does rain */
+        intensity: number
+        /** Likely range of the intensity if it rains (roughly 10th–90th percentile) */
+        low: number
+        high: number
+    }
+
+    /** What the forecast says about one future tick */
+    export interface Forecast {
+        /** Expected conditions; `rainIntensity` is what falls on average, `rain` has the details */
+        weather: State
+        rain: RainForecast
+    }
+
+    /** A day of a forecast, summarized */
+    export interface DailyForecast {
+        /** Day number since the start of the episode (`tick / TICKS_PER_DAY`) */
+        day: number
+        /** Forecast ticks that fall in this day (fewer for the first and last day) */
+        ticks: number
+        minTemperature: number
+        maxTemperature: number
+        meanHumidity: number
+        /** Strongest wind of the day, m/s */
+        maxWindSpeed: number
+        /** Highest sun intensity of the day */
+        peakSun: number
+        /** Fraction of the day's ticks with sun */
+        sunFraction: number
+        /** Chance of rain at the most likely tick of the day */
+        rainProbability: number
+        /** Sum of expected rain intensity (probability × intensity) over the day */
+        expectedRain: number
     }
 }
 
 export interface IrrigationController {
-    decide(metrics: Simulation.Metrics, state: Simulation.State): boolean;
+    decide(metrics: Simulation.Metrics, state: Simulation.State): Simulation.IrrigationDecision;
+    /**
+     * Called with the garden's layout (tiles, plants, hoses and zones) when
+     * the simulation is built, for model-based controllers that simulate
+     * ahead. Its moisture is zeroed: controllers only ever see moisture
+     * through the metrics and the sensor readings in `state.sensors`.
+     */
+    setLayout?(layout: Garden): void;
+}
+
+/**
+ * Source of the simulation's weather. `evolve` must only depend on its
+ * arguments (and the model's own settings/seed), so forecasts can run the
+ * model ahead without disturbing the simulation.
+ */
+export interface WeatherModel {
+    /** Weather before the first tick */
+    initialState(): Weather.State;
+    /** Weather for `tick`, given the weather of the tick before */
+    evolve(prev: Weather.State, tick: number): Weather.State;
+    /**
+     * Fraction of the day the sun is up on the day of `tick`, with midday
+     * at a quarter of the day. Models without it keep `DEFAULT_DAY_LENGTH`.
+     */
+    dayLength?(tick: number): number;
+}
+
+/**
+ * Turns the weather that will actually happen into what a forecast issued
+ * at `issuedAt` would say about it, with whatever errors the provider models.
+ */
+export interface ForecastProvider {
+    /** `truth[i]` is the weather at `issuedAt + i` */
+    forecast(truth: Weather.State[], issuedAt: number): Weather.Forecast[];
 }
 
 export namespace Simulation {
 
+    /** On/off state of every hose valve, keyed by `Garden.HosePath.id` */
+    export type ValveStates = Record<string, boolean>
+
+    /**
+     * What a controller returns each tick: `true`/`false` switches every valve
+     * at once, a `ValveStates` map switches valves one by one (hoses missing
+     * from the map stay closed).
+     */
+    export type IrrigationDecision = boolean | ValveStates
+
     /** Static parameters for the moisture simulation */
     export interface Config {
         /** Moisture added per tick at hose tiles when irrigation is ON */
@@ -71,25 +275,189 @@ export namespace Simulation {
         maxMoisture: number
         /** Coverage radius for hose watering (Manhattan distance) */
         coverageRadius: number
+        /** Fraction of a tile's capacity it holds against gravity; water above it runs downhill (0–1) */
+        fieldCapacity: number
+        /** Fraction of a tile's runoff water passed to lower neighbours per runoff pass (0–1) */
+        runoffRate: number
+        /** Runoff passes per tick (how far surface water can travel in one tick) */
+        runoffIterations: number
+        /** Rain intensity from which part of the rain runs off instead of soaking in (0–1) */
+        heavyRainThreshold: number
+        /** Fraction of heavy rain that runs off the surface instead of soaking in (0–1) */
+        heavyRainRunoffFraction: number
+        /** Whether path tiles act as drainage channels that carry runoff out of the garden */
+        pathDrainage: boolean
+        /** Height of pillars in tiles; sets how long their shadows are (0 disables shade) */
+        pillarHeight: number
+        /** Fraction of sunlight a pillar's shadow blocks (0–1) */
+        shadeDepth: number
+        /** Stress a plant sheds per tick in its ideal range */
+        plantRecoveryRate: number
+        /** Max water a source can supply per tick, shared by all hoses it feeds */
+        sourceFlowRate: number
+        /** Tank volume behind each source; 0 = fed from the mains (flow-limited only) */
+        tankCapacity: number
+        /** Water added to a tank per tick */
+        tankRefillRate: number
+        /** Water a tank captures per tick at rain intensity 1 */
+        rainCaptureRate: number
+        /** How soil water is lost to the air (see `EvapotranspirationModel`) */
+        evapotranspirationModel: EvapotranspirationModel
+        /** Solar radiation at `sunIntensity` 1, W/m² (reference-ET models) */
+        fullSunRadiation: number
+        /** Moisture units per mm of evapotranspiration (reference-ET models) */
+        etToMoisture: number
+        /** Soil evaporation coefficient Ke: bare-soil evaporation as a multiple of reference ET */
+        soilEvaporationCoefficient: number
+        /** Extra evaporation per m/s of wind, relative to the base rate */
+        windEvaporationRate: number
+        /** Fraction of spray (emitters with spray loss) blown one tile downwind per m/s of wind */
+        sprayDriftRate: number
+        /** Ticks between a controller's valve command and the valve acting on it */
+        valveLatency: number
+        /** Ticks for a valve's flow to build from nothing to full after it opens (lines pressurising) */
+        valveRampUpTicks: number
+        /** Ticks for a valve's flow to die away after it closes (lines draining) */
+        valveRampDownTicks: number
+        /** Shortest time a valve stays open once opened; earlier close commands are held until then */
+        valveMinOnTicks: number
+        /** Shortest time a valve stays closed once closed; earlier open commands are held until then */
+        valveMinOffTicks: number
+        /** Throw every tick the water ledger doesn't balance (for debugging the physics) */
+        assertWaterBalance: boolean
+    }
+
+    /**
+     * How evaporation is computed:
+     * - "linear": `baseEvaporationRate` scaled by a blend of sun, temperature, wind and humidity; no transpiration
+     * - "hargreaves" / "penman_monteith": reference evapotranspiration ET₀ from the weather, times
+     *   `soilEvaporationCoefficient` for the soil surface plus each living plant's `cropCoefficient`
+     */
+    export type EvapotranspirationModel = "linear" | "hargreaves" | "penman_monteith"
+
+    /**
+     * Where the soil's water came from and went during one tick. Balances when
+     * irrigationIn + rainIn + underflowIn - evaporationOut - transpirationOut - drainedOut - overflowOut = storageChange.
+     */
+    export interface WaterLedger {
+        /** Irrigation water that reached the soil (after emitter losses) */
+        irrigationIn: number
+        rainIn: number
+        evaporationOut: number
+        /** Water drawn by plants (reference-ET models only) */
+        transpirationOut: number
+        /** Runoff carried out of the garden by draining paths */
+        drainedOut: number
+        /** Water above a tile's capacity, removed by the clamp */
+        overflowOut: number
+        /** Water the clamp at 0 added back to tiles that evaporated below empty */
+        underflowIn: number
+        /** Change in the total moisture held by the soil tiles */
+        storageChange: number
+        /** What the other terms fail to explain; ~0 when the budget balances */
+        imbalance: number
+    }
+
+    /** A valve command on its way to the valve */
+    export interface ValveCommand {
+        open: boolean
+        /** Tick the valve receives it */
+        at: number
+    }
+
+    /** The physical side of one valve: what it has been told, what it is doing, what gets through */
+    export interface ValveActuator {
+        /** Commands still in flight, oldest first */
+        pending: ValveCommand[]
+        /** Latest command the valve has received */
+        target: boolean
+        /** Whether the valve is physically open */
+        open: boolean
+        /** Tick the valve last opened or closed (-Infinity if it never has) */
+        since: number
+        /** 0–1, fraction of full flow getting through while the lines fill or drain */
+        flow: number
+    }
+
+    /** A water source tile with its supply limits */
+    export interface WaterSource {
+        id: string
+        position: Garden.Position
+        flowRate: number
+        /** 0 = no tank */
+        tankCapacity: number
+        tankLevel: number
+        refillRate: number
+        rainCaptureRate: number
+    }
+
+    /** Quality tiers of the soil moisture probes in `SENSOR_HARDWARE` */
+    export type SensorGrade = "ideal" | "standard" | "cheap"
+
+    /** Noise and failure characteristics of a soil moisture probe */
+    export interface SensorHardware {
+        /** Standard deviation of the noise on each reading */
+        noise: number
+        /** Standard deviation of the per-tick random walk of the calibration offset */
+        drift: number
+        /** Ticks between samples; readings are held in between */
+        samplingInterval: number
+        /** 0–1, chance that a sample is lost and the previous reading is kept */
+        dropoutRate: number
+        /** 0–1, chance per sample that the probe freezes at its last reading for good */
+        stuckRate: number
+    }
+
+    /** A soil moisture probe on one tile, with its fault state */
+    export interface Sensor extends SensorHardware {
+        id: string
+        position: Garden.Position
+        /** Plants the probe stands for when readings are averaged (set by the placement planner) */
+        weight: number
+        /** Last reported moisture; null until a first sample gets through */
+        reading: number | null
+        /** Tick of the last sample that got through (-1 if none yet) */
+        readingTick: number
+        /** Calibration error accumulated by drift */
+        offset: number
+        /** Reports its frozen `reading` from now on */
+        stuck: boolean
     }
 
     export interface State {
         tick: number
         isRunning: boolean
-        irrigationOn: boolean
+        irrigationOn: boolean // true while at least one valve is open
+        valves: ValveStates           // physical valve states, after actuation delays
+        valveActuators: Record<string, ValveActuator> // keyed by hose id
+        zones: Garden.Zone[]
         weather: Weather.State
+        sunExposure: number[][] // per-tile sun exposure [y][x], 0 = shaded, 1 = full sun
+        dayLength: number // fraction of today the sun is up, from the weather model
         config: Simulation.Config
         episodeLength: number
-        forecast: number[]
-        waterUsedThisTick: number
+        forecast: Weather.Forecast[] // one entry per tick ahead
+        waterUsedThisTick: number     // water actually delivered this tick
+        waterRequestedThisTick: number // water the open valves asked for this tick
+        waterSources: WaterSource[]
+        sensors: Sensor[]                   // soil moisture probes; none = controllers see the true moisture
+        waterLedger: WaterLedger            // this tick's soil water budget
+        cumulativeWaterLedger: WaterLedger  // sum of all ticks' ledgers
         lastIrrigationTick: number
         cumulativeWaterUsed: number
+        cumulativeWaterRequested: number
         irrigationToggleCount: number // times irrigation changed state
         irrigationOnTicks: number     // ticks irrigation was on
+        valveToggleCount: Record<string, number> // per-valve toggles, keyed by hose id
+        valveOnTicks: Record<string, number>     // per-valve ticks open, keyed by hose id
+        waterUsedByValve: Record<string, number> // water delivered this tick, keyed by hose id
         // Accumulators for episode results
         dryPlantTicks?: number
         floodedPlantTicks?: number
         healthyPlantTicks?: number
+        dryStressTicks?: number       // dry plant-ticks weighted by (1 - droughtTolerance)
+        floodStressTicks?: number     // flooded plant-ticks weighted by (1 - floodTolerance)
+        deadPlantTicks?: number       // plant-ticks spent dead
         peakSimultaneousFloodedPlants?: number
         peakSimultaneousDryPlants?: number
         // Results are produced once an episode finishes
@@ -100,21 +468,35 @@ export namespace Simulation {
         avgMoisture: number
         minMoisture: number
         maxMoisture: number
-        percentTooDry: number   // % of plants with moisture < IDEAL_MIN_MOISTURE
-        percentTooWet: number   // % of plants with moisture > IDEAL_MAX_MOISTURE
+        percentTooDry: number   // % of plants below their species' ideal minimum
+        percentTooWet: number   // % of plants above their species' ideal maximum
         irrigationOn: boolean
         ticksSinceLastIrrigation: number
         timeOfDay: number       // normalized time of day [0–1]
         episodeProgress: number // progress of the episode [0–1]
         waterUsedThisTick: number
         cumulativeWaterUsed: number
+        zones: ZoneMetrics[]
+    }
+
+    /** Plant moisture summary for one irrigation zone */
+    export interface ZoneMetrics {
+        zoneId: string
+        avgMoisture: number
+        percentTooDry: number
+        percentTooWet: number
     }
 
     export interface Results {
         totalWaterUsed: number
+        /** Water the valves asked for; more than `totalWaterUsed` when sources ran short */
+        totalWaterRequested: number
         dryPlantTicks: number
         floodedPlantTicks: number
         healthyPlantTicks: number
+        dryStressTicks: number
+        floodStressTicks: number
+        deadPlantTicks: number
         peakSimultaneousFloodedPlants: number
         peakSimultaneousDryPlants: number
         tickCount: number
@@ -122,6 +504,13 @@ export namespace Simulation {
         totalPlantTicks: number
         irrigationToggleCount: number
         irrigationOnTicks: number
+        valveToggleCount: Record<string, number>
+        valveOnTicks: Record<string, number>
+        /** Fraction of the plants planted at the start that are still alive (0–1) */
+        survivalRate: number
+        deadPlants: number
+        /** Total biomass of the living plants at the end */
+        finalBiomass: number
     }
 
 }
\ No newline at end of file
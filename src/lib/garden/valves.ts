@@ -0,0 +1,115 @@
+// lib/garden/valves.ts
+import { Garden, Simulation } from "./types";
+
+/**
+ * Normalize a controller decision into one on/off entry per hose.
+ * A boolean decision applies to every valve; a map keeps only the hoses
+ * that exist in the garden and closes the ones it doesn't mention.
+ */
+export function resolveValveStates(
+    decision: Simulation.IrrigationDecision,
+    hoses: Garden.HosePath[]
+): Simulation.ValveStates {
+    const valves: Simulation.ValveStates = {};
+    for (const hose of hoses) {
+        valves[hose.id] = typeof decision === "boolean" ? decision : decision[hose.id] === true;
+    }
+    return valves;
+}
+
+/** True when at least one valve is open */
+export function isAnyValveOpen(valves: Simulation.ValveStates): boolean {
+    return Object.values(valves).some(Boolean);
+}
+
+/** Hoses whose valve is currently open */
+export function getOpenHoses(
+    hoses: Garden.HosePath[],
+    valves: Simulation.ValveStates
+): Garden.HosePath[] {
+    return hoses.filter((hose) => valves[hose.id]);
+}
+
+/** Actuation settings that reproduce instant, full-rate valves */
+export const INSTANT_VALVE_ACTUATION = {
+    valveLatency: 0,
+    valveRampUpTicks: 0,
+    valveRampDownTicks: 0,
+    valveMinOnTicks: 0,
+    valveMinOffTicks: 0,
+};
+
+export type ValveActuationSettings = typeof INSTANT_VALVE_ACTUATION;
+
+/** Typical valve hardware, for testing controllers against realistic lag */
+export const VALVE_ACTUATION_PRESETS = {
+    instant: INSTANT_VALVE_ACTUATION,
+    solenoid: { valveLatency: 1, valveRampUpTicks: 2, valveRampDownTicks: 1, valveMinOnTicks: 0, valveMinOffTicks: 0 },
+    pump: { valveLatency: 2, valveRampUpTicks: 5, valveRampDownTicks: 3, valveMinOnTicks: 10, valveMinOffTicks: 5 },
+    sluggish: { valveLatency: 5, valveRampUpTicks: 10, valveRampDownTicks: 6, valveMinOnTicks: 20, valveMinOffTicks: 20 },
+} as const satisfies Record<string, ValveActuationSettings>;
+
+export type ValveActuationKey = keyof typeof VALVE_ACTUATION_PRESETS;
+
+/** Settled actuators matching the given valve states (open valves at full flow) */
+export function createValveActuators(valves: Simulation.ValveStates): Record<string, Simulation.ValveActuator> {
+    return Object.fromEntries(
+        Object.entries(valves).map(([hoseId, open]) => [
+            hoseId,
+            { pending: [], target: open, open, since: -Infinity, flow: open ? 1 : 0 },
+        ])
+    );
+}
+
+/**
+ * Advance every valve by one tick under the controller's commands.
+ * A changed command reaches the valve `valveLatency` ticks later; the
+ * valve then switches as soon as it has been open for `valveMinOnTicks`
+ * (or closed for `valveMinOffTicks`), and its flow ramps towards full or
+ * nothing over `valveRampUpTicks` / `valveRampDownTicks`. With every
+ * setting at 0 the valves follow the commands at once.
+ * Returns NEW actuators.
+ */
+export function actuateValves(
+    actuators: Record<string, Simulation.ValveActuator>,
+    commands: Simulation.ValveStates,
+    tick: number,
+    config: Simulation.Config
+): Record<string, Simulation.ValveActuator> {
+    const { valveLatency, valveRampUpTicks, valveRampDownTicks, valveMinOnTicks, valveMinOffTicks } = config;
+    const next: Record<string, Simulation.ValveActuator> = {};
+
+    for (const [hoseId, commanded] of Object.entries(commands)) {
+        const actuator = actuators[hoseId] ?? createValveActuators({ [hoseId]: false })[hoseId];
+        const pending = [...actuator.pending];
+        let { target, open, since, flow } = actuator;
+
+        const lastCommand = pending.length ? pending[pending.length - 1].open : target;
+        if (commanded !== lastCommand) {
+            pending.push({ open: commanded, at: tick + Math.max(0, valveLatency) });
+        }
+        while (pending.length && pending[0].at <= tick) {
+            target = pending.shift()!.open;
+        }
+
+        // The hardware holds a switch until the valve has spent its minimum time in the current state
+        if (target !== open && tick - since >= (open ? valveMinOnTicks : valveMinOffTicks)) {
+            open = target;
+            since = tick;
+        }
+
+        if (open) {
+            flow = valveRampUpTicks > 0 ? Math.min(1, flow + 1 / valveRampUpTicks) : 1;
+        } else {
+            flow = valveRampDownTicks > 0 ? Math.max(0, flow - 1 / valveRampDownTicks) : 0;
+        }
+
+        next[hoseId] = { pending, target, open, since, flow };
+    }
+    return next;
+}
+
+/** Fraction of full flow through each valve */
+export function valveFlows(actuators: Record<string, Simulation.ValveActuator>): Record<string, number> {
+    return Object.fromEntries(Object.entries(actuators).map(([hoseId, actuator]) => [hoseId, actuator.flow]));
+}
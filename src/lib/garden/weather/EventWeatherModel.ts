@@ -0,0 +1,73 @@
+import { Weather, WeatherModel } from "../types";
+import { DEFAULT_DAY_LENGTH } from "../consts";
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+/** Weather during an event, given what the weather would otherwise have been */
+export function applyWeatherEvent(weather: Weather.State, event: Weather.Event): Weather.State {
+  const s = clamp01(event.severity);
+  switch (event.kind) {
+    case "heatwave":
+      return {
+        ...weather,
+        temperature: weather.temperature + 12 * s,
+        humidity: weather.humidity * (1 - 0.5 * s),
+        rainIntensity: 0,
+      };
+    case "drought":
+      return {
+        ...weather,
+        temperature: weather.temperature + 3 * s,
+        humidity: weather.humidity * (1 - 0.4 * s),
+        rainIntensity: 0,
+      };
+    case "cloudburst":
+      return {
+        ...weather,
+        // Squalls come with the downpour
+        windSpeed: Math.max(weather.windSpeed, 10 * s),
+        temperature: weather.temperature - 2 * s,
+        humidity: Math.max(weather.humidity, 0.9 + 0.1 * s),
+        sunIntensity: weather.sunIntensity * (1 - 0.8 * s),
+        rainIntensity: Math.max(weather.rainIntensity, 0.6 + 0.4 * s),
+      };
+    case "cold_snap":
+      return {
+        ...weather,
+        temperature: weather.temperature - 15 * s,
+      };
+  }
+}
+
+/** Whether an event covers a tick */
+export function isEventActive(event: Weather.Event, tick: number): boolean {
+  return tick >= event.start && tick < event.start + event.duration;
+}
+
+/**
+ * Wraps another weather model and overrides its weather while events are
+ * active (overlapping events apply in list order). The wrapped model sees
+ * the overridden weather as its previous state, so events leave an
+ * aftermath: rain from a cloudburst dries up the way the model's own
+ * rain would.
+ */
+export class EventWeatherModel implements WeatherModel {
+  constructor(private base: WeatherModel, private events: Weather.Event[]) {}
+
+  /** Events covering a tick */
+  activeEvents(tick: number): Weather.Event[] {
+    return this.events.filter((event) => isEventActive(event, tick));
+  }
+
+  initialState(): Weather.State {
+    return this.base.initialState();
+  }
+
+  evolve(prev: Weather.State, tick: number): Weather.State {
+    return this.activeEvents(tick).reduce(applyWeatherEvent, this.base.evolve(prev, tick));
+  }
+
+  dayLength(tick: number): number {
+    return this.base.dayLength?.(tick) ?? DEFAULT_DAY_LENGTH;
+  }
+}
@@ -0,0 +1,64 @@
+import { Weather, WeatherModel } from "../types";
+import { TICKS_PER_DAY } from "../consts";
+import { mulberry32 } from "../../utils";
+import { evolveWind } from "../simulation";
+import { DEFAULT_INITIAL_WEATHER } from "./SineWeatherModel";
+
+export interface MarkovWeatherOptions {
+  /** Chance per tick that a dry spell turns wet */
+  dryToWet: number;
+  /** Chance per tick that a wet spell dries up */
+  wetToDry: number;
+  /** Rain intensity range while it is wet (0–1) */
+  minRain: number;
+  maxRain: number;
+}
+
+export const DEFAULT_MARKOV_WEATHER_OPTIONS: MarkovWeatherOptions = {
+  dryToWet: 0.004,
+  wetToDry: 0.02,
+  minRain: 0.2,
+  maxRain: 0.9,
+};
+
+/**
+ * Two-state Markov chain of dry and wet spells. The spell is read from the
+ * previous tick (any rain = wet), so spells last 1/wetToDry and 1/dryToWet
+ * ticks on average. Wet spells are cloudy, cooler, more humid and windier.
+ */
+export class MarkovWeatherModel implements WeatherModel {
+  private options: MarkovWeatherOptions;
+
+  constructor(private seed: number = 42, options: Partial<MarkovWeatherOptions> = {}) {
+    this.options = { ...DEFAULT_MARKOV_WEATHER_OPTIONS, ...options };
+  }
+
+  initialState(): Weather.State {
+    return { ...DEFAULT_INITIAL_WEATHER };
+  }
+
+  evolve(prev: Weather.State, tick: number): Weather.State {
+    const { dryToWet, wetToDry, minRain, maxRain } = this.options;
+    const rand = mulberry32(this.seed + tick);
+
+    const wasWet = prev.rainIntensity > 0;
+    const isWet = wasWet ? rand() >= wetToDry : rand() < dryToWet;
+
+    // Rain keeps some memory of the previous tick so showers don't flicker
+    const target = minRain + rand() * (maxRain - minRain);
+    const rainIntensity = isWet ? (wasWet ? 0.7 * prev.rainIntensity + 0.3 * target : target) : 0;
+
+    const dayPhase = (tick % TICKS_PER_DAY) / TICKS_PER_DAY;
+    const clearSky = Math.max(0, Math.sin(dayPhase * Math.PI * 2));
+    const sunIntensity = isWet ? clearSky * 0.3 : clearSky;
+
+    return {
+      temperature: 20 + 10 * sunIntensity - (isWet ? 3 : 0),
+      humidity: Math.min(1, 0.4 + 0.3 * (1 - sunIntensity) + (isWet ? 0.25 : 0)),
+      sunIntensity,
+      rainIntensity,
+      // Wet spells come with stronger wind
+      ...evolveWind(prev, rand, isWet ? 6 : 1.5 + 2.5 * sunIntensity),
+    };
+  }
+}
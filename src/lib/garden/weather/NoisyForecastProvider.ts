@@ -0,0 +1,139 @@
+import { ForecastProvider, Weather } from "../types";
+import { mulberry32 } from "../../utils";
+
+export interface ForecastErrorOptions {
+  /** Lead time (ticks) after which the forecast has lost half its skill; Infinity = perfect */
+  skillHalfLife: number;
+  /** Chance of rain an unskilled forecast falls back to */
+  climatologicalRainChance: number;
+  /** Chance that a dry stretch is forecast as rain, at zero skill */
+  falseAlarmRate: number;
+  /** Chance that a rainy stretch is forecast as dry, at zero skill */
+  missRate: number;
+  /** Spread of the forecast intensity around the truth at zero skill (log scale) */
+  intensityError: number;
+  /** Temperature error at zero skill (standard deviation), °C */
+  temperatureError: number;
+  /** Humidity error at zero skill (standard deviation) */
+  humidityError: number;
+  /** Sun intensity error at zero skill (standard deviation), from misjudged cloud cover */
+  sunError: number;
+  /** Wind speed error at zero skill (standard deviation), m/s */
+  windSpeedError: number;
+  /** Wind direction error at zero skill (standard deviation), radians */
+  windDirectionError: number;
+  /** Intensity quoted for rain the forecast doesn't know the strength of */
+  typicalRain: number;
+  /** Ticks in one stretch of weather that is falsely forecast or missed as a whole */
+  eventLength: number;
+}
+
+export const DEFAULT_FORECAST_ERROR_OPTIONS: ForecastErrorOptions = {
+  skillHalfLife: 30,
+  climatologicalRainChance: 0.1,
+  falseAlarmRate: 0.3,
+  missRate: 0.3,
+  intensityError: 0.5,
+  temperatureError: 3,
+  humidityError: 0.1,
+  sunError: 0.25,
+  windSpeedError: 2,
+  windDirectionError: 0.6,
+  typicalRain: 0.4,
+  eventLength: 10,
+};
+
+/** Error-free forecast: the exact weather, with rain probability 0 or 1 */
+export const PERFECT_FORECAST_OPTIONS: ForecastErrorOptions = {
+  ...DEFAULT_FORECAST_ERROR_OPTIONS,
+  skillHalfLife: Infinity,
+};
+
+/** z-score of the 90th percentile, for the confidence band */
+const Z90 = 1.28;
+
+/**
+ * Forecast with errors that grow with lead time. Skill halves every
+ * `skillHalfLife` ticks of lead; as it drops:
+ * - the rain probability drifts from 0/1 towards climatology
+ * - whole stretches of weather may be forecast wrong: storms that never come
+ *   (false alarms) and storms that aren't seen (misses). Which stretches are
+ *   wrong is fixed per target tick, so a false alarm persists from one
+ *   forecast to the next and disappears as the stretch gets closer
+ * - the intensity gets noisier and its confidence band wider
+ * - temperature, humidity, daytime sun and wind drift further from the truth
+ */
+export class NoisyForecastProvider implements ForecastProvider {
+  private options: ForecastErrorOptions;
+
+  constructor(private seed: number = 42, options: Partial<ForecastErrorOptions> = {}) {
+    this.options = { ...DEFAULT_FORECAST_ERROR_OPTIONS, ...options };
+  }
+
+  /** 1 = perfect, 0 = no better than climatology */
+  skill(lead: number): number {
+    return Math.pow(0.5, lead / this.options.skillHalfLife);
+  }
+
+  forecast(truth: Weather.State[], issuedAt: number): Weather.Forecast[] {
+    const {
+      climatologicalRainChance,
+      falseAlarmRate,
+      missRate,
+      intensityError,
+      temperatureError,
+      humidityError,
+      sunError,
+      windSpeedError,
+      windDirectionError,
+      typicalRain,
+      eventLength,
+    } = this.options;
+
+    return truth.map((weather, lead) => {
+      const target = issuedAt + lead;
+      const uncertainty = 1 - this.skill(lead);
+
+      // Rolls shared by every forecast of the same stretch of weather
+      const eventRand = mulberry32(this.seed * 7919 + Math.floor(target / eventLength));
+      const falseAlarm = eventRand() < falseAlarmRate * uncertainty;
+      const missed = eventRand() < missRate * uncertainty;
+      const falseAlarmIntensity = 0.2 + 0.5 * eventRand();
+
+      const raining = weather.rainIntensity > 0;
+      const saysRain = raining ? !missed : falseAlarm;
+
+      // Fresh noise per forecast issued
+      const rand = mulberry32(this.seed + 104729 * issuedAt + lead);
+      const gauss = () => Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+      const spread = intensityError * uncertainty;
+
+      const intensity = !saysRain
+        ? typicalRain
+        : raining
+          ? Math.min(1, weather.rainIntensity * Math.exp(spread * gauss()))
+          : falseAlarmIntensity;
+
+      const probability = saysRain ? 1 - 0.5 * uncertainty : climatologicalRainChance * uncertainty;
+      const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+      return {
+        weather: {
+          temperature: weather.temperature + temperatureError * uncertainty * gauss(),
+          humidity: clamp01(weather.humidity + humidityError * uncertainty * gauss()),
+          // No sun is forecast at night, however unsure the forecast
+          sunIntensity: weather.sunIntensity > 0 ? clamp01(weather.sunIntensity + sunError * uncertainty * gauss()) : 0,
+          rainIntensity: probability * intensity,
+          windSpeed: Math.max(0, weather.windSpeed + windSpeedError * uncertainty * gauss()),
+          windDirection: weather.windDirection + windDirectionError * uncertainty * gauss(),
+        },
+        rain: {
+          probability,
+          intensity,
+          low: intensity * Math.exp(-Z90 * spread),
+          high: Math.min(1, intensity * Math.exp(Z90 * spread)),
+        },
+      };
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { Weather, WeatherModel } from "../types";
+
+/**
+ * Plays back a recorded weather series, one entry per tick. Past the end
+ * of the series it either starts over or keeps the last entry.
+ */
+export class ReplayWeatherModel implements WeatherModel {
+  constructor(private series: Weather.State[], private loop: boolean = true) {
+    if (!series.length) {
+      throw new Error("ReplayWeatherModel needs at least one weather entry");
+    }
+  }
+
+  initialState(): Weather.State {
+    return { ...this.series[0] };
+  }
+
+  evolve(_prev: Weather.State, tick: number): Weather.State {
+    const index = this.loop ? tick % this.series.length : Math.min(tick, this.series.length - 1);
+    return { ...this.series[index] };
+  }
+}
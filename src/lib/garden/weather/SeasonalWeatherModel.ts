@@ -0,0 +1,147 @@
+import { Weather, WeatherModel } from "../types";
+import { TICKS_PER_DAY } from "../consts";
+import { mulberry32 } from "../../utils";
+import { evolveWind } from "../simulation";
+import { DEFAULT_INITIAL_WEATHER } from "./SineWeatherModel";
+
+export interface SeasonalWeatherOptions {
+  daysPerYear: number;
+  /** Day of the year the episode starts on (0 = 1 January) */
+  startDay: number;
+  /** Yearly mean of the daily mean temperature, °C */
+  meanTemperature: number;
+  /** Half the difference between the warmest and coldest day, °C */
+  seasonalAmplitude: number;
+  /** Day of the year with the warmest weather */
+  warmestDay: number;
+  /** Extra warming at full midday sun, °C */
+  dailyAmplitude: number;
+  /** Fraction of the day the sun is up, averaged over the year (0–1) */
+  meanDayLength: number;
+  /** How much the day length swings around the mean over the year */
+  dayLengthAmplitude: number;
+  /** Day of the year with the longest day */
+  longestDay: number;
+  /** Average chance per tick that a dry spell turns wet */
+  dryToWet: number;
+  /** Average chance per tick that a wet spell dries up */
+  wetToDry: number;
+  /** 0 = spells spread evenly over the year, 1 = wet spells almost only in the wet season */
+  rainSeasonality: number;
+  /** Day of the year in the middle of the wet season */
+  wettestDay: number;
+}
+
+export const DEFAULT_SEASONAL_WEATHER_OPTIONS: SeasonalWeatherOptions = {
+  daysPerYear: 365,
+  startDay: 172,
+  meanTemperature: 14,
+  seasonalAmplitude: 9,
+  warmestDay: 200,
+  dailyAmplitude: 8,
+  meanDayLength: 0.5,
+  dayLengthAmplitude: 0.15,
+  longestDay: 172,
+  dryToWet: 0.003,
+  wetToDry: 0.015,
+  rainSeasonality: 0.7,
+  wettestDay: 15,
+};
+
+/** Day of the year each season starts on, for `startDay` */
+export const SEASON_START_DAYS = {
+  spring: 79,
+  summer: 172,
+  autumn: 265,
+  winter: 355,
+} as const;
+
+export type Season = keyof typeof SEASON_START_DAYS;
+
+/**
+ * Weather that follows the time of year, for episodes of weeks or months:
+ * - a yearly temperature curve on top of the daily sun cycle
+ * - days that are longer in summer and shorter in winter; midday stays at
+ *   a quarter of `TICKS_PER_DAY`, so sunrise and sunset move around it
+ * - dry and wet spells lasting days, with wet spells far more likely in
+ *   the wet season; wet spells are cloudy, cooler, humid and windy
+ * - wind that is stronger in winter than in summer
+ */
+export class SeasonalWeatherModel implements WeatherModel {
+  private options: SeasonalWeatherOptions;
+
+  constructor(private seed: number = 42, options: Partial<SeasonalWeatherOptions> = {}) {
+    this.options = { ...DEFAULT_SEASONAL_WEATHER_OPTIONS, ...options };
+  }
+
+  /** Day of the year (fractional) at a tick */
+  dayOfYear(tick: number): number {
+    const { startDay, daysPerYear } = this.options;
+    return (startDay + tick / TICKS_PER_DAY) % daysPerYear;
+  }
+
+  /** Fraction of the day the sun is up on the day of a tick */
+  dayLength(tick: number): number {
+    const { meanDayLength, dayLengthAmplitude, longestDay } = this.options;
+    const length = meanDayLength + dayLengthAmplitude * this.yearCycle(tick, longestDay);
+    return Math.max(0.05, Math.min(0.95, length));
+  }
+
+  initialState(): Weather.State {
+    const { windSpeed, windDirection } = DEFAULT_INITIAL_WEATHER;
+    return this.weatherFor(0, false, 0, { windSpeed, windDirection });
+  }
+
+  evolve(prev: Weather.State, tick: number): Weather.State {
+    const { dryToWet, wetToDry, rainSeasonality, wettestDay } = this.options;
+    const rand = mulberry32(this.seed + tick);
+
+    // +1 in the middle of the wet season, -1 in the middle of the dry season
+    const wetness = this.yearCycle(tick, wettestDay);
+    const startChance = dryToWet * Math.max(0, 1 + rainSeasonality * wetness);
+    const stopChance = wetToDry * Math.max(0.1, 1 - rainSeasonality * wetness);
+
+    const wasWet = prev.rainIntensity > 0;
+    const isWet = wasWet ? rand() >= stopChance : rand() < startChance;
+
+    // Showers keep some memory of the previous tick so rain doesn't flicker
+    const target = 0.15 + 0.6 * rand();
+    const rainIntensity = isWet ? (wasWet ? 0.8 * prev.rainIntensity + 0.2 * target : target) : 0;
+
+    const meanWind = 3 - 1.5 * this.yearCycle(tick, this.options.warmestDay) + (isWet ? 3 : 0);
+    return this.weatherFor(tick, isWet, rainIntensity, evolveWind(prev, rand, meanWind));
+  }
+
+  /** cos over the year, 1 on `peakDay` */
+  private yearCycle(tick: number, peakDay: number): number {
+    return Math.cos((2 * Math.PI * (this.dayOfYear(tick) - peakDay)) / this.options.daysPerYear);
+  }
+
+  private weatherFor(
+    tick: number,
+    isWet: boolean,
+    rainIntensity: number,
+    wind: Pick<Weather.State, "windSpeed" | "windDirection">
+  ): Weather.State {
+    const { meanTemperature, seasonalAmplitude, warmestDay, dailyAmplitude, longestDay } = this.options;
+
+    // Sun is up for dayLength of the day, centred on midday at phase 0.25
+    const dayPhase = (tick % TICKS_PER_DAY) / TICKS_PER_DAY;
+    const dayLength = this.dayLength(tick);
+    const sinceSunrise = (dayPhase - (0.25 - dayLength / 2) + 1) % 1;
+    const clearSky = sinceSunrise < dayLength ? Math.sin((Math.PI * sinceSunrise) / dayLength) : 0;
+    // The midday sun is higher in summer
+    const peak = 0.75 + 0.25 * this.yearCycle(tick, longestDay);
+    const sunIntensity = clearSky * peak * (isWet ? 0.35 : 1);
+
+    const seasonal = this.yearCycle(tick, warmestDay);
+    return {
+      temperature:
+        meanTemperature + seasonalAmplitude * seasonal + dailyAmplitude * (sunIntensity - 0.5) - (isWet ? 3 : 0),
+      humidity: Math.min(1, 0.45 + 0.3 * (1 - sunIntensity) - 0.1 * seasonal + (isWet ? 0.25 : 0)),
+      sunIntensity,
+      rainIntensity,
+      ...wind,
+    };
+  }
+}
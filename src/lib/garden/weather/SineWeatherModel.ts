@@ -0,0 +1,28 @@
+import { Weather, WeatherModel } from "../types";
+import { evolveWeather } from "../simulation";
+
+/** Weather at the start of an episode when the model has no better idea */
+export const DEFAULT_INITIAL_WEATHER: Weather.State = {
+  temperature: 25,
+  humidity: 0.5,
+  sunIntensity: 0.8,
+  rainIntensity: 0,
+  windSpeed: 2,
+  windDirection: (3 * Math.PI) / 2, // westerly
+};
+
+/**
+ * The original weather: a sine-wave sun over each day, 20–30°C,
+ * and a 1% chance per tick of a drizzle that slowly dries up.
+ */
+export class SineWeatherModel implements WeatherModel {
+  constructor(private seed: number = 42) {}
+
+  initialState(): Weather.State {
+    return { ...DEFAULT_INITIAL_WEATHER };
+  }
+
+  evolve(prev: Weather.State, tick: number): Weather.State {
+    return evolveWeather(this.seed, prev, tick);
+  }
+}
@@ -0,0 +1,35 @@
+import { Weather } from "../types";
+import { TICKS_PER_DAY } from "../consts";
+
+/**
+ * Summarize a per-tick forecast issued at `issuedAt` into days, for
+ * horizons too long to read tick by tick. Rain comes in spells rather than
+ * independent ticks, so a day's rain probability is that of its most likely
+ * tick rather than the chance of any tick raining.
+ */
+export function aggregateForecastByDay(forecast: Weather.Forecast[], issuedAt: number): Weather.DailyForecast[] {
+  const days = new Map<number, Weather.Forecast[]>();
+  forecast.forEach((entry, lead) => {
+    const day = Math.floor((issuedAt + lead) / TICKS_PER_DAY);
+    const entries = days.get(day) ?? [];
+    entries.push(entry);
+    days.set(day, entries);
+  });
+
+  return Array.from(days, ([day, entries]) => {
+    const temperatures = entries.map((e) => e.weather.temperature);
+    const sun = entries.map((e) => e.weather.sunIntensity);
+    return {
+      day,
+      ticks: entries.length,
+      minTemperature: Math.min(...temperatures),
+      maxTemperature: Math.max(...temperatures),
+      meanHumidity: entries.reduce((sum, e) => sum + e.weather.humidity, 0) / entries.length,
+      maxWindSpeed: Math.max(...entries.map((e) => e.weather.windSpeed)),
+      peakSun: Math.max(...sun),
+      sunFraction: sun.filter((s) => s > 0).length / entries.length,
+      rainProbability: Math.max(...entries.map((e) => e.rain.probability)),
+      expectedRain: entries.reduce((sum, e) => sum + e.rain.probability * e.rain.intensity, 0),
+    };
+  });
+}
@@ -0,0 +1,249 @@
+import { Weather } from "../types";
+import { TICKS_PER_DAY } from "../consts";
+import { ReplayWeatherModel } from "./ReplayWeatherModel";
+
+/** One row of a weather log, in the units weather stations usually report */
+export interface WeatherRecord {
+  /** Milliseconds since the epoch */
+  timestamp: number;
+  /** °C */
+  temperature: number;
+  /** Relative humidity, 0–1 */
+  humidity: number;
+  /** W/m² */
+  solarRadiation: number;
+  /** mm fallen since the previous record */
+  precipitation: number;
+  /** m/s (optional column, 0 when missing) */
+  windSpeed: number;
+  /** Degrees the wind blows from, clockwise from north (optional column, 0 when missing) */
+  windDirection: number;
+}
+
+export interface WeatherImportOptions {
+  ticksPerDay: number;
+  /** Solar radiation that counts as full sun (`sunIntensity` 1), W/m² */
+  fullSunRadiation: number;
+  /** Rain rate that counts as heavy rain (`rainIntensity` 1), mm/h */
+  heavyRainRate: number;
+  /**
+   * Hour of day (in the log's time zone, see `utcOffsetHours`) the replay
+   * starts at. Simulated days start at sunrise, so starting the data at
+   * sunrise keeps the recorded sun in step with the simulated sun path and
+   * shade.
+   */
+  startHour: number;
+  /**
+   * Time zone the log's days are counted in, as hours ahead of UTC (2 for
+   * CEST, -5 for EST). Fixed rather than the machine's own zone, so the
+   * same file gives the same series everywhere.
+   */
+  utcOffsetHours: number;
+}
+
+export const DEFAULT_WEATHER_IMPORT_OPTIONS: WeatherImportOptions = {
+  ticksPerDay: TICKS_PER_DAY,
+  fullSunRadiation: 1000,
+  heavyRainRate: 10,
+  startHour: 6,
+  utcOffsetHours: 0,
+};
+
+/** Accepted spellings of each column (compared lowercase, without spaces, dashes or underscores) */
+const COLUMN_ALIASES: Record<keyof WeatherRecord, string[]> = {
+  timestamp: ["timestamp", "time", "datetime", "date"],
+  temperature: ["temperature", "temp", "airtemperature"],
+  humidity: ["humidity", "relativehumidity", "rh"],
+  solarRadiation: ["solarradiation", "solar", "radiation", "irradiance"],
+  precipitation: ["precipitation", "precip", "rain", "rainfall"],
+  windSpeed: ["windspeed", "wind", "windspd"],
+  windDirection: ["winddirection", "winddir", "wdir"],
+};
+
+/** Columns a log may leave out */
+const OPTIONAL_COLUMNS: (keyof WeatherRecord)[] = ["windSpeed", "windDirection"];
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[\s_-]/g, "");
+
+function findColumn(keys: string[], field: keyof WeatherRecord): string | undefined {
+  return keys.find((key) => COLUMN_ALIASES[field].includes(normalizeKey(key)));
+}
+
+/** ISO date and time without a zone, which `Date.parse` would read in the machine's zone */
+const ZONELESS_ISO = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/** Timestamps without a zone are read as UTC */
+function parseTimestamp(value: unknown): number {
+  if (typeof value === "number") {
+    // Epoch seconds are far smaller than epoch milliseconds
+    return value < 1e11 ? value * 1000 : value;
+  }
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return parseTimestamp(Number(text));
+  const parsed = Date.parse(ZONELESS_ISO.test(text) ? `${text.replace(" ", "T")}Z` : text);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Unreadable timestamp: "${text}"`);
+  }
+  return parsed;
+}
+
+/** Turn loosely-typed rows (from CSV or JSON) into sorted weather records */
+function toRecords(rows: Record<string, unknown>[]): WeatherRecord[] {
+  if (!rows.length) {
+    throw new Error("Weather file has no rows");
+  }
+
+  const keys = Object.keys(rows[0]);
+  const columns = {} as Record<keyof WeatherRecord, string | undefined>;
+  for (const field of Object.keys(COLUMN_ALIASES) as (keyof WeatherRecord)[]) {
+    const column = findColumn(keys, field);
+    if (!column && !OPTIONAL_COLUMNS.includes(field)) {
+      throw new Error(`Weather file is missing a "${field}" column (found: ${keys.join(", ")})`);
+    }
+    columns[field] = column;
+  }
+
+  // Columns the file has need a number in every row; only absent optional columns read as 0
+  const num = (row: Record<string, unknown>, index: number, field: keyof WeatherRecord) => {
+    const column = columns[field];
+    if (!column) return 0;
+    const cell = row[column];
+    const value = typeof cell === "string" && cell.trim() === "" ? NaN : Number(cell ?? NaN);
+    if (!Number.isFinite(value)) {
+      throw new Error(`Weather file row ${index + 1} has no readable "${column}" value`);
+    }
+    return value;
+  };
+
+  const records = rows.map((row, index) => ({
+    timestamp: parseTimestamp(row[columns.timestamp!]),
+    temperature: num(row, index, "temperature"),
+    humidity: num(row, index, "humidity"),
+    solarRadiation: Math.max(0, num(row, index, "solarRadiation")),
+    precipitation: Math.max(0, num(row, index, "precipitation")),
+    windSpeed: Math.max(0, num(row, index, "windSpeed")),
+    windDirection: num(row, index, "windDirection"),
+  }));
+
+  // Accept both 0–1 and percent, decided once for the column so a reading of 1% isn't taken for 100%
+  if (records.some((record) => record.humidity > 1)) {
+    for (const record of records) record.humidity /= 100;
+  }
+
+  return records.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Parse a CSV weather log with a header row. Comma, semicolon and tab
+ * delimiters are recognized; quoted fields may not contain the delimiter.
+ */
+export function parseWeatherCsv(text: string): WeatherRecord[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new Error("Weather CSV needs a header row and at least one data row");
+  }
+
+  const header = lines[0];
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    header.split(d).length > header.split(best).length ? d : best
+  );
+  const unquote = (cell: string) => cell.trim().replace(/^"(.*)"$/, "$1");
+  const keys = header.split(delimiter).map(unquote);
+
+  const rows = lines.slice(1).map((line) => {
+    const cells = line.split(delimiter).map(unquote);
+    return Object.fromEntries(keys.map((key, i) => [key, cells[i]]));
+  });
+  return toRecords(rows);
+}
+
+/** Parse a JSON weather log: an array of row objects, or `{ records: [...] }` */
+export function parseWeatherJson(text: string): WeatherRecord[] {
+  const data = JSON.parse(text);
+  const rows = Array.isArray(data) ? data : data?.records;
+  if (!Array.isArray(rows)) {
+    throw new Error("Weather JSON must be an array of records or an object with a `records` array");
+  }
+  return toRecords(rows);
+}
+
+/** Parse a weather log, detecting JSON vs CSV from the content when no format is given */
+export function parseWeatherFile(text: string, format?: "csv" | "json"): WeatherRecord[] {
+  const detected = format ?? (/^\s*[[{]/.test(text) ? "json" : "csv");
+  return detected === "json" ? parseWeatherJson(text) : parseWeatherCsv(text);
+}
+
+/**
+ * Resample weather records onto simulation ticks. Temperature, humidity,
+ * sun and wind speed are interpolated linearly between records; precipitation is
+ * spread evenly over the interval it was recorded for and converted to a
+ * rate.
+ *
+ * The series starts exactly at `startHour` (in the log's time zone) on
+ * the first day the log covers that hour, and is cut to whole days, so
+ * tick 0 and every loop of a replay fall at the same time of day. A log
+ * shorter than a day is kept whole; looping it drifts out of phase.
+ */
+export function resampleWeather(
+  records: WeatherRecord[],
+  options: Partial<WeatherImportOptions> = {}
+): Weather.State[] {
+  const { ticksPerDay, fullSunRadiation, heavyRainRate, startHour, utcOffsetHours } = {
+    ...DEFAULT_WEATHER_IMPORT_OPTIONS,
+    ...options,
+  };
+  if (records.length < 2) {
+    throw new Error("Need at least two weather records to resample");
+  }
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const tickMs = dayMs / ticksPerDay;
+  const offsetMs = utcOffsetHours * 60 * 60 * 1000;
+  const end = records[records.length - 1].timestamp;
+
+  // startHour on the log's first day, or the next day if the log begins later than that
+  const firstDay = Math.floor((records[0].timestamp + offsetMs) / dayMs) * dayMs - offsetMs;
+  let start = firstDay + startHour * 60 * 60 * 1000;
+  if (start < records[0].timestamp) start += dayMs;
+  if (start > end) {
+    throw new Error(`Weather log never reaches ${startHour}:00 (UTC${utcOffsetHours >= 0 ? "+" : ""}${utcOffsetHours})`);
+  }
+
+  const days = Math.floor((end - start) / dayMs);
+  const tickCount = days > 0 ? days * ticksPerDay : Math.floor((end - start) / tickMs) + 1;
+
+  const series: Weather.State[] = [];
+  let i = 0; // records[i] is the last record at or before t
+  for (let k = 0; k < tickCount; k++) {
+    const t = start + k * tickMs;
+    while (i < records.length - 2 && records[i + 1].timestamp <= t) i++;
+    const a = records[i];
+    const b = records[i + 1];
+    const span = b.timestamp - a.timestamp;
+    const f = span > 0 ? Math.max(0, Math.min(1, (t - a.timestamp) / span)) : 0;
+    const lerp = (x: number, y: number) => x + (y - x) * f;
+
+    // b.precipitation fell between a and b
+    const rainRate = span > 0 ? b.precipitation / (span / 3_600_000) : 0;
+
+    series.push({
+      temperature: lerp(a.temperature, b.temperature),
+      humidity: Math.max(0, Math.min(1, lerp(a.humidity, b.humidity))),
+      sunIntensity: Math.max(0, Math.min(1, lerp(a.solarRadiation, b.solarRadiation) / fullSunRadiation)),
+      rainIntensity: Math.max(0, Math.min(1, rainRate / heavyRainRate)),
+      windSpeed: lerp(a.windSpeed, b.windSpeed),
+      // Directions don't interpolate across north; take the nearer record's
+      windDirection: ((f < 0.5 ? a.windDirection : b.windDirection) * Math.PI) / 180,
+    });
+  }
+  return series;
+}
+
+/** Parse a weather log and wrap it in a `ReplayWeatherModel` */
+export function createReplayWeatherModel(
+  text: string,
+  options: Partial<WeatherImportOptions> & { format?: "csv" | "json"; loop?: boolean } = {}
+): ReplayWeatherModel {
+  const { format, loop, ...importOptions } = options;
+  return new ReplayWeatherModel(resampleWeather(parseWeatherFile(text, format), importOptions), loop);
+}
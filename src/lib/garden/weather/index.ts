@@ -0,0 +1,10 @@
+export * from './SineWeatherModel'
+export * from './MarkovWeatherModel'
+export * from './SeasonalWeatherModel'
+export * from './ReplayWeatherModel'
+export * from './EventWeatherModel'
+export * from './scenarios'
+export * from './NoisyForecastProvider'
+export * from './forecast'
+export * from './map'
+export * from './importWeather'
\ No newline at end of file
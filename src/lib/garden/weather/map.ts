@@ -0,0 +1,29 @@
+import { ForecastProvider, WeatherModel } from "../types";
+import { SineWeatherModel } from "./SineWeatherModel";
+import { MarkovWeatherModel } from "./MarkovWeatherModel";
+import { NoisyForecastProvider, PERFECT_FORECAST_OPTIONS } from "./NoisyForecastProvider";
+import { SEASON_START_DAYS, SeasonalWeatherModel } from "./SeasonalWeatherModel";
+
+/**
+ * Weather models that need nothing but a seed, so they can be picked by key
+ * (e.g. from the UI or a server action). Replays need data and are built directly.
+ */
+export const WEATHER_MODELS = {
+  sine: (seed: number) => new SineWeatherModel(seed),
+  markov: (seed: number) => new MarkovWeatherModel(seed),
+  spring: (seed: number) => new SeasonalWeatherModel(seed, { startDay: SEASON_START_DAYS.spring }),
+  summer: (seed: number) => new SeasonalWeatherModel(seed, { startDay: SEASON_START_DAYS.summer }),
+  autumn: (seed: number) => new SeasonalWeatherModel(seed, { startDay: SEASON_START_DAYS.autumn }),
+  winter: (seed: number) => new SeasonalWeatherModel(seed, { startDay: SEASON_START_DAYS.winter }),
+} as const satisfies Record<string, (seed: number) => WeatherModel>;
+
+export type WeatherModelKey = keyof typeof WEATHER_MODELS;
+
+/** Forecast quality presets, seeded like `WEATHER_MODELS` */
+export const FORECAST_PROVIDERS = {
+  perfect: (seed: number) => new NoisyForecastProvider(seed, PERFECT_FORECAST_OPTIONS),
+  noisy: (seed: number) => new NoisyForecastProvider(seed),
+  poor: (seed: number) => new NoisyForecastProvider(seed, { skillHalfLife: 8, falseAlarmRate: 0.5, missRate: 0.5 }),
+} as const satisfies Record<string, (seed: number) => ForecastProvider>;
+
+export type ForecastProviderKey = keyof typeof FORECAST_PROVIDERS;
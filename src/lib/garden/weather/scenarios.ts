@@ -0,0 +1,140 @@
+import { Weather, WeatherModel } from "../types";
+import { TICKS_PER_DAY } from "../consts";
+import { mulberry32 } from "../../utils";
+import { EventWeatherModel } from "./EventWeatherModel";
+
+export interface RandomWeatherEventOptions {
+  /** Average number of events starting per day */
+  eventsPerDay: number;
+  kinds: Weather.EventKind[];
+  /** Severity range (0–1) */
+  minSeverity: number;
+  maxSeverity: number;
+}
+
+export const DEFAULT_RANDOM_WEATHER_EVENT_OPTIONS: RandomWeatherEventOptions = {
+  eventsPerDay: 0.3,
+  kinds: ["heatwave", "drought", "cloudburst", "cold_snap"],
+  minSeverity: 0.5,
+  maxSeverity: 1,
+};
+
+/** Shortest and longest duration of each kind of event, in ticks */
+export const WEATHER_EVENT_DURATIONS: Record<Weather.EventKind, [number, number]> = {
+  heatwave: [2 * TICKS_PER_DAY, 5 * TICKS_PER_DAY],
+  drought: [4 * TICKS_PER_DAY, 10 * TICKS_PER_DAY],
+  cloudburst: [5, 30],
+  cold_snap: [TICKS_PER_DAY, 3 * TICKS_PER_DAY],
+};
+
+/**
+ * Events arriving at random (exponentially distributed gaps) over an
+ * episode, each with a random kind, duration and severity. The same seed
+ * always gives the same events.
+ */
+export function randomWeatherEvents(
+  seed: number,
+  episodeLength: number,
+  options: Partial<RandomWeatherEventOptions> = {}
+): Weather.Event[] {
+  const { eventsPerDay, kinds, minSeverity, maxSeverity } = { ...DEFAULT_RANDOM_WEATHER_EVENT_OPTIONS, ...options };
+  if (eventsPerDay <= 0 || !kinds.length) return [];
+
+  const rand = mulberry32(seed);
+  const meanGap = TICKS_PER_DAY / eventsPerDay;
+  const events: Weather.Event[] = [];
+
+  for (let start = -Math.log(1 - rand()) * meanGap; start < episodeLength; start += -Math.log(1 - rand()) * meanGap) {
+    const kind = kinds[Math.floor(rand() * kinds.length)];
+    const [minDuration, maxDuration] = WEATHER_EVENT_DURATIONS[kind];
+    events.push({
+      kind,
+      start: Math.floor(start),
+      duration: Math.round(minDuration + rand() * (maxDuration - minDuration)),
+      severity: minSeverity + rand() * (maxSeverity - minSeverity),
+    });
+  }
+  return events;
+}
+
+export interface WeatherScenario {
+  name: string;
+  description: string;
+  /** Events for an episode; scheduled presets place them relative to the episode length */
+  events(seed: number, episodeLength: number): Weather.Event[];
+}
+
+/** An event covering the fraction `from`–`to` of the episode */
+const during = (
+  kind: Weather.EventKind,
+  episodeLength: number,
+  from: number,
+  to: number,
+  severity = 1
+): Weather.Event => ({
+  kind,
+  start: Math.round(from * episodeLength),
+  duration: Math.round((to - from) * episodeLength),
+  severity,
+});
+
+/**
+ * Bundled event sequences for stress-testing controllers. Every simulation
+ * with the same seed and episode length sees exactly the same events.
+ */
+export const WEATHER_SCENARIOS = {
+  none: {
+    name: "No events",
+    description: "The weather model on its own",
+    events: () => [],
+  },
+  heatwave: {
+    name: "Heatwave",
+    description: "Hot, dry air and no rain for the middle 40% of the episode",
+    events: (_seed, length) => [during("heatwave", length, 0.2, 0.6)],
+  },
+  drought: {
+    name: "Drought",
+    description: "No rain and drier air for most of the episode",
+    events: (_seed, length) => [during("drought", length, 0.1, 0.9)],
+  },
+  cloudbursts: {
+    name: "Cloudbursts",
+    description: "Three short torrential downpours",
+    events: (_seed, length) =>
+      [0.25, 0.5, 0.75].map((at) => ({ kind: "cloudburst" as const, start: Math.round(at * length), duration: 20, severity: 1 })),
+  },
+  cold_snap: {
+    name: "Cold snap",
+    description: "A sharp drop in temperature for a fifth of the episode",
+    events: (_seed, length) => [during("cold_snap", length, 0.4, 0.6)],
+  },
+  whiplash: {
+    name: "Drought then deluge",
+    description: "A heatwave on top of a drought, broken by a cloudburst, then a cold snap",
+    events: (_seed, length) => [
+      during("drought", length, 0.1, 0.5),
+      during("heatwave", length, 0.3, 0.5, 0.8),
+      during("cloudburst", length, 0.5, 0.52),
+      during("cold_snap", length, 0.7, 0.85, 0.7),
+    ],
+  },
+  random: {
+    name: "Random events",
+    description: "Events of any kind injected at random, seeded per simulation",
+    events: (seed, length) => randomWeatherEvents(seed, length),
+  },
+} as const satisfies Record<string, WeatherScenario>;
+
+export type WeatherScenarioKey = keyof typeof WEATHER_SCENARIOS;
+
+/** Wrap a weather model with the events of a scenario */
+export function withWeatherScenario(
+  base: WeatherModel,
+  key: WeatherScenarioKey,
+  seed: number,
+  episodeLength: number
+): WeatherModel {
+  const events = WEATHER_SCENARIOS[key].events(seed, episodeLength);
+  return events.length ? new EventWeatherModel(base, events) : base;
+}
@@ -0,0 +1,153 @@
+// lib/garden/zones.ts
+import { Garden as G, Simulation } from "./types";
+import type { Garden as GardenModel } from "./types";
+import { GardenGrid } from "./grid";
+
+/**
+ * How the hose network is split into zones:
+ * - "source": one zone per water source (the whole tree fed by it)
+ * - "branch": one zone for each trunk line leaving a source, plus one zone
+ *   per branch that splits off a trunk (with everything downstream of it).
+ *   The trunk follows the child with the largest subtree at every split.
+ */
+export type ZoningStrategy = "source" | "branch";
+
+export interface ZonePlannerOptions {
+  strategy?: ZoningStrategy;
+  /** Max Manhattan distance from a hose tile at which a plant belongs to the zone */
+  coverageRadius?: number;
+}
+
+/**
+ * Group the hoses produced by `planHoses` into named irrigation zones.
+ *
+ * Relies on `HosePath.parentId` / `HosePath.waterSource` to walk the hose
+ * tree. A plant may sit within reach of several zones, in which case it is
+ * listed in each of them.
+ */
+export function planZones(
+  baseGarden: GardenModel,
+  options: ZonePlannerOptions = {}
+): GardenModel {
+  const strategy = options.strategy ?? "source";
+  const coverageRadius = options.coverageRadius ?? 1;
+  const hoses = baseGarden.hoses;
+
+  if (!hoses.length) {
+    return { ...baseGarden, zones: [] };
+  }
+
+  const posKey = (p: G.Position) => `${p.x},${p.y}`;
+
+  // Children of each hose in the tree
+  const children = new Map<string, G.HosePath[]>();
+  for (const hose of hoses) {
+    if (!hose.parentId) continue;
+    const list = children.get(hose.parentId) ?? [];
+    list.push(hose);
+    children.set(hose.parentId, list);
+  }
+
+  const collectSubtree = (root: G.HosePath): string[] => {
+    const ids: string[] = [];
+    const stack = [root];
+    while (stack.length) {
+      const hose = stack.pop()!;
+      ids.push(hose.id);
+      stack.push(...(children.get(hose.id) ?? []));
+    }
+    return ids;
+  };
+
+  // Hose groups, in hose order so zone naming is deterministic
+  const groups: { waterSource: G.Position; hoseIds: string[] }[] = [];
+
+  if (strategy === "source") {
+    const bySource = new Map<string, { waterSource: G.Position; hoseIds: string[] }>();
+    for (const hose of hoses) {
+      const key = posKey(hose.waterSource);
+      if (!bySource.has(key)) {
+        const group = { waterSource: hose.waterSource, hoseIds: [] as string[] };
+        bySource.set(key, group);
+        groups.push(group);
+      }
+      bySource.get(key)!.hoseIds.push(hose.id);
+    }
+  } else {
+    for (const root of hoses.filter((h) => !h.parentId)) {
+      const trunk = { waterSource: root.waterSource, hoseIds: [] as string[] };
+      groups.push(trunk);
+
+      let current: G.HosePath | undefined = root;
+      while (current) {
+        trunk.hoseIds.push(current.id);
+        const kids: { hose: G.HosePath; subtree: string[] }[] = (children.get(current.id) ?? []).map((hose) => ({
+          hose,
+          subtree: collectSubtree(hose),
+        }));
+        if (!kids.length) break;
+
+        // Keep following the heaviest child; every other child starts a branch zone
+        const heaviest = kids.reduce((a, b) => (b.subtree.length > a.subtree.length ? b : a));
+        for (const kid of kids) {
+          if (kid === heaviest) continue;
+          groups.push({ waterSource: root.waterSource, hoseIds: kid.subtree });
+        }
+        current = heaviest.hose;
+      }
+    }
+  }
+
+  const grid = new GardenGrid(baseGarden);
+  const plants = grid.findPlantTiles();
+  const hoseById = new Map(hoses.map((h) => [h.id, h]));
+
+  const zones: G.Zone[] = groups.map((group, i) => {
+    const zoneTiles = group.hoseIds.flatMap((id) => hoseById.get(id)?.tiles ?? []);
+    const covered = plants.filter((plant) =>
+      zoneTiles.some((p) => Math.abs(p.x - plant.x) + Math.abs(p.y - plant.y) <= coverageRadius)
+    );
+
+    return {
+      id: `zone-${i + 1}`,
+      name: `Zone ${zoneLetter(i)}`,
+      waterSource: { x: group.waterSource.x, y: group.waterSource.y },
+      hoseIds: group.hoseIds,
+      plants: covered.map((t) => ({ x: t.x, y: t.y })),
+    };
+  });
+
+  return {
+    ...baseGarden,
+    zones,
+  };
+}
+
+/** A, B, …, Z, AA, AB, … */
+function zoneLetter(index: number): string {
+  let label = "";
+  let n = index;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return label;
+}
+
+/**
+ * Expand a per-zone decision into per-hose valve states, so controllers can
+ * reason about zones and still return a regular `IrrigationDecision`.
+ * Hoses outside the given zones stay closed.
+ */
+export function zoneValveStates(
+  zones: G.Zone[],
+  zoneStates: Record<string, boolean>
+): Simulation.ValveStates {
+  const valves: Simulation.ValveStates = {};
+  for (const zone of zones) {
+    for (const hoseId of zone.hoseIds) {
+      valves[hoseId] = valves[hoseId] || zoneStates[zone.id] === true;
+    }
+  }
+  return valves;
+}
@@ -1,6 +1,7 @@
 import Redis from 'ioredis';
 import { ControllerParams } from '@/lib/garden/controllers/SmartIrrigationController';
 import { Chromosome } from '@/lib/garden/controllers/SmartIrrigationController';
+import { RLPolicy } from '@/lib/garden/controllers/RLIrrigationController';
 
 /**
  * Saved training result with metadata
@@ -18,19 +19,37 @@ export interface SavedTraining {
   };
 }
 
+/**
+ * Saved reinforcement learning policy with metadata
+ */
+export interface SavedPolicy {
+  id: string;
+  name: string;
+  policy: RLPolicy;
+  /** Average greedy score at the end of training */
+  score: number;
+  timestamp: string;
+  config: {
+    algorithm: RLPolicy['kind'];
+    episodes: number;
+  };
+}
+
 /**
  * RedisTrainingStore
  * 
  * Manages saving and loading trained controller parameters to/from Redis.
  * Uses Redis for:
- * - Persistent storage of trained params
+ * - Persistent storage of trained params and learned RL policies
  * - Quick lookup by ID
- * - List of all saved trainings
+ * - List of all saved trainings and policies
  */
 export class RedisTrainingStore {
   private redis: Redis;
   private readonly KEY_PREFIX = 'training:';
   private readonly LIST_KEY = 'trainings:list';
+  private readonly POLICY_KEY_PREFIX = 'policy:';
+  private readonly POLICY_LIST_KEY = 'policies:list';
 
   constructor(redisUrl: string = 'redis://localhost:6379') {
     this.redis = new Redis(redisUrl, {
@@ -176,6 +195,71 @@ export class RedisTrainingStore {
     await this.redis.del(this.LIST_KEY);
     console.log('🗑️ Cleared all trainings');
   }
+
+  /**
+   * Save a learned RL policy
+   */
+  async savePolicy(
+    policy: RLPolicy,
+    name: string,
+    score: number,
+    config: { algorithm: RLPolicy['kind']; episodes: number }
+  ): Promise<string> {
+    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const saved: SavedPolicy = {
+      id,
+      name,
+      policy,
+      score,
+      timestamp: new Date().toISOString(),
+      config,
+    };
+
+    await this.redis.set(
+      `${this.POLICY_KEY_PREFIX}${id}`,
+      JSON.stringify(saved)
+    );
+    await this.redis.lpush(this.POLICY_LIST_KEY, id);
+
+    console.log(`💾 Saved policy: ${name} (${id})`);
+    return id;
+  }
+
+  /**
+   * Load an RL policy by ID
+   */
+  async loadPolicy(id: string): Promise<SavedPolicy | null> {
+    const data = await this.redis.get(`${this.POLICY_KEY_PREFIX}${id}`);
+    if (!data) return null;
+    return JSON.parse(data);
+  }
+
+  /**
+   * Get all saved RL policies (sorted by most recent first)
+   */
+  async listPolicies(): Promise<SavedPolicy[]> {
+    const ids = await this.redis.lrange(this.POLICY_LIST_KEY, 0, -1);
+    const policies: SavedPolicy[] = [];
+
+    for (const id of ids) {
+      const policy = await this.loadPolicy(id);
+      if (policy) {
+        policies.push(policy);
+      }
+    }
+
+    return policies;
+  }
+
+  /**
+   * Delete an RL policy
+   */
+  async deletePolicy(id: string): Promise<boolean> {
+    const deleted = await this.redis.del(`${this.POLICY_KEY_PREFIX}${id}`);
+    await this.redis.lrem(this.POLICY_LIST_KEY, 1, id);
+    return deleted > 0;
+  }
 }
 
 /**
@@ -30,4 +30,28 @@ export function fisherYatesShuffle<T>(array: T[], rand: () => number = Math.rand
         [array[i], array[j]] = [array[j], array[i]];
     }
     return array;
-}
\ No newline at end of file
+}
+
+/**
+ * Pick a key from a weight table with probability proportional to its weight.
+ *
+ * @param weights - Relative weights per key (non-positive weights are never picked)
+ * @param rand - Random number generator function that returns a value between 0 and 1
+ * @param fallback - Returned when no key has a positive weight
+ */
+export function pickWeighted<K extends string>(
+    weights: Partial<Record<K, number>>,
+    rand: () => number,
+    fallback: K
+): K {
+    const entries = (Object.entries(weights) as [K, number][]).filter(([, w]) => w > 0);
+    if (!entries.length) return fallback;
+
+    const total = entries.reduce((sum, [, w]) => sum + w, 0);
+    let r = rand() * total;
+    for (const [key, weight] of entries) {
+        r -= weight;
+        if (r < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+}
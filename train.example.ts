@@ -54,7 +54,7 @@ async function main() {
   console.log();
 
   // Run training
-  const trainer = new GeneticAlgorithmTrainer(gaConfig);
+  const trainer = GeneticAlgorithmTrainer.forSmartController(gaConfig);
   const startTime = Date.now();
 
   console.log("🚀 Starting training...\n");